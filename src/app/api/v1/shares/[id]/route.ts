@@ -0,0 +1,98 @@
+import { isShareExpiry, parseSharePayload, SharePayloadError } from '@/lib/share-format';
+import { getOwnerToken, getShare, revokeShare, ShareChanges, ShareResult, updateShare } from '@/lib/shares';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface ShareRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function shareResultResponse(result: ShareResult) {
+  switch (result.status) {
+    case 'ok':
+      return NextResponse.json(result.share);
+    case 'notFound':
+      return NextResponse.json({ error: 'Share not found or expired' }, { status: 404 });
+    case 'forbidden':
+      return NextResponse.json({ error: 'Owner token is missing or does not match' }, { status: 403 });
+    case 'revoked':
+      return NextResponse.json({ error: 'This share was revoked by its owner', revoked: true }, { status: 410 });
+  }
+}
+
+// GET /api/v1/shares/:id - old links forward their ?sources= / ?data= query string here
+export async function GET(request: NextRequest, { params }: ShareRouteContext) {
+  try {
+    const { id } = await params;
+    return shareResultResponse(await getShare(id, request.nextUrl.searchParams));
+
+  } catch (error) {
+    console.error('Error fetching share:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch share' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/v1/shares/:id - body { payload?, expiresIn? }, needs "Authorization: Bearer <ownerToken>"
+export async function PATCH(request: NextRequest, { params }: ShareRouteContext) {
+  let body: { payload?: unknown; expiresIn?: unknown };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const changes: ShareChanges = {};
+
+    if (body.payload !== undefined) {
+      changes.payload = parseSharePayload(body.payload);
+    }
+    if (body.expiresIn !== undefined) {
+      if (!isShareExpiry(body.expiresIn)) {
+        return NextResponse.json({ error: 'Unknown expiry option' }, { status: 400 });
+      }
+      changes.expiresIn = body.expiresIn;
+    }
+
+    return shareResultResponse(await updateShare(id, getOwnerToken(request.headers.get('authorization')), changes));
+
+  } catch (error) {
+    if (error instanceof SharePayloadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating share:', error);
+    return NextResponse.json(
+      { error: 'Failed to update share' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/v1/shares/:id - revokes the share, needs "Authorization: Bearer <ownerToken>"
+export async function DELETE(request: NextRequest, { params }: ShareRouteContext) {
+  try {
+    const { id } = await params;
+    const result = await revokeShare(id, getOwnerToken(request.headers.get('authorization')));
+
+    return result.status === 'revoked'
+      ? new NextResponse(null, { status: 204 })
+      : shareResultResponse(result);
+
+  } catch (error) {
+    console.error('Error revoking share:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share' },
+      { status: 500 }
+    );
+  }
+}
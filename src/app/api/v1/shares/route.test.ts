@@ -0,0 +1,165 @@
+import { SHARE_PAYLOAD_VERSION } from '@/lib/share-format';
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { DELETE, GET, PATCH } from './[id]/route';
+import { POST } from './route';
+
+// The store is in memory for tests (see vitest.config.ts), shared by every test in this file
+
+const payload = {
+  version: SHARE_PAYLOAD_VERSION,
+  name: 'Linear Algebra',
+  videos: [{ id: 'abc', title: 'Vectors' }],
+  playlists: []
+};
+
+function request(method: string, path: string, body?: unknown, ownerToken?: string) {
+  return new NextRequest(`http://localhost/api/v1/shares${path}`, {
+    method,
+    body: typeof body === 'string' ? body : body === undefined ? undefined : JSON.stringify(body),
+    headers: ownerToken ? { authorization: `Bearer ${ownerToken}` } : undefined
+  });
+}
+
+function context(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+async function createShare(body: unknown = { payload }) {
+  const response = await POST(request('POST', '', body));
+  expect(response.status).toBe(201);
+  return response.json();
+}
+
+describe('POST /api/v1/shares', () => {
+  it('creates a share and returns its owner token and link', async () => {
+    const share = await createShare();
+
+    expect(share.payload).toMatchObject({ name: 'Linear Algebra', videos: [{ id: 'abc', title: 'Vectors' }] });
+    expect(share.ownerToken).toEqual(expect.any(String));
+    expect(share.shareUrl).toBe(`http://localhost/session/${share.id}`);
+    expect(share.expiresAt).toBeGreaterThan(share.createdAt);
+  });
+
+  it('creates shares that never expire', async () => {
+    const share = await createShare({ payload, expiresIn: 'never' });
+    expect(share.expiresAt).toBeNull();
+  });
+
+  it.each([
+    ['a body that is not JSON', '{', 'Request body must be JSON'],
+    ['an unknown expiry', { payload, expiresIn: '2d' }, 'Unknown expiry option'],
+    ['an invalid payload', { payload: { ...payload, version: 2 } }, 'Unsupported share payload version: 2']
+  ])('rejects %s', async (_, body, error) => {
+    const response = await POST(request('POST', '', body));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error });
+  });
+});
+
+describe('GET /api/v1/shares/:id', () => {
+  it('returns the share without its owner token', async () => {
+    const { id, ownerToken } = await createShare();
+    const response = await GET(request('GET', `/${id}`), context(id));
+
+    expect(response.status).toBe(200);
+    const share = await response.json();
+    expect(share).toMatchObject({ id, payload: { name: 'Linear Algebra' } });
+    expect(JSON.stringify(share)).not.toContain(ownerToken);
+  });
+
+  it('decodes old ?sources= links', async () => {
+    const response = await GET(request('GET', '/old?sources=https://youtu.be/abc&name=Physics'), context('old'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).payload).toMatchObject({ name: 'Physics', sourceUrls: ['https://youtu.be/abc'] });
+  });
+
+  it('returns 404 for an unknown id', async () => {
+    const response = await GET(request('GET', '/missing'), context('missing'));
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('PATCH /api/v1/shares/:id', () => {
+  it('replaces the payload for the owner', async () => {
+    const { id, ownerToken } = await createShare();
+    const renamed = { ...payload, name: 'Calculus' };
+
+    const response = await PATCH(request('PATCH', `/${id}`, { payload: renamed }, ownerToken), context(id));
+    expect(response.status).toBe(200);
+    expect((await response.json()).payload.name).toBe('Calculus');
+
+    const fetched = await GET(request('GET', `/${id}`), context(id));
+    expect((await fetched.json()).payload.name).toBe('Calculus');
+  });
+
+  it('changes the expiry', async () => {
+    const { id, ownerToken } = await createShare();
+    const response = await PATCH(request('PATCH', `/${id}`, { expiresIn: 'never' }, ownerToken), context(id));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).expiresAt).toBeNull();
+  });
+
+  it('returns 403 without the owner token', async () => {
+    const { id } = await createShare();
+
+    const missing = await PATCH(request('PATCH', `/${id}`, { expiresIn: '1d' }), context(id));
+    expect(missing.status).toBe(403);
+
+    const wrong = await PATCH(request('PATCH', `/${id}`, { expiresIn: '1d' }, 'not-the-token'), context(id));
+    expect(wrong.status).toBe(403);
+  });
+
+  it('returns 400 for an invalid payload or expiry', async () => {
+    const { id, ownerToken } = await createShare();
+
+    const badPayload = await PATCH(request('PATCH', `/${id}`, { payload: { ...payload, videos: [{}] } }, ownerToken), context(id));
+    expect(badPayload.status).toBe(400);
+
+    const badExpiry = await PATCH(request('PATCH', `/${id}`, { expiresIn: 'forever' }, ownerToken), context(id));
+    expect(badExpiry.status).toBe(400);
+  });
+
+  it('returns 404 for an unknown id', async () => {
+    const response = await PATCH(request('PATCH', '/missing', { expiresIn: '1d' }, 'token'), context('missing'));
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('DELETE /api/v1/shares/:id', () => {
+  it('revokes the share, which then answers 410', async () => {
+    const { id, ownerToken } = await createShare();
+
+    const response = await DELETE(request('DELETE', `/${id}`, undefined, ownerToken), context(id));
+    expect(response.status).toBe(204);
+
+    const fetched = await GET(request('GET', `/${id}`), context(id));
+    expect(fetched.status).toBe(410);
+    expect(await fetched.json()).toEqual({ error: 'This share was revoked by its owner', revoked: true });
+
+    const patched = await PATCH(request('PATCH', `/${id}`, { payload }, ownerToken), context(id));
+    expect(patched.status).toBe(410);
+
+    // Revoking again is a no-op
+    const deletedAgain = await DELETE(request('DELETE', `/${id}`, undefined, ownerToken), context(id));
+    expect(deletedAgain.status).toBe(204);
+  });
+
+  it('returns 403 without the owner token and leaves the share alone', async () => {
+    const { id } = await createShare();
+
+    const response = await DELETE(request('DELETE', `/${id}`), context(id));
+    expect(response.status).toBe(403);
+
+    const fetched = await GET(request('GET', `/${id}`), context(id));
+    expect(fetched.status).toBe(200);
+  });
+
+  it('returns 404 for an unknown id', async () => {
+    const response = await DELETE(request('DELETE', '/missing', undefined, 'token'), context('missing'));
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,46 @@
+import { isShareExpiry, parseSharePayload, SharePayloadError } from '@/lib/share-format';
+import { createShare } from '@/lib/shares';
+import { NextRequest, NextResponse } from 'next/server';
+
+// POST /api/v1/shares - body { payload, expiresIn? } (see src/lib/share-format.ts)
+export async function POST(request: NextRequest) {
+  let body: { payload?: unknown; expiresIn?: unknown };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { expiresIn } = body;
+    if (expiresIn !== undefined && !isShareExpiry(expiresIn)) {
+      return NextResponse.json({ error: 'Unknown expiry option' }, { status: 400 });
+    }
+
+    const payload = parseSharePayload(body.payload);
+    const { share, ownerToken } = await createShare(payload, expiresIn);
+
+    return NextResponse.json({
+      ...share,
+      ownerToken,
+      shareUrl: `${request.nextUrl.origin}/session/${share.id}`
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof SharePayloadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating share:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { getYouTubeErrorMessage, getYouTubeErrorStatus } from '@/lib/youtube-api';
+import { resolvePlaylistPage } from '@/lib/youtube-resolver';
+import { NextRequest, NextResponse } from 'next/server';
+
+const PLAYLIST_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// GET /api/youtube/playlist?id=<playlistId>&pageToken=<token>&fresh=1 - returns { videos, nextPageToken, totalVideos }.
+// "fresh" skips the cache, for refreshing a saved playlist.
+export async function GET(request: NextRequest) {
+  const playlistId = request.nextUrl.searchParams.get('id');
+  const pageToken = request.nextUrl.searchParams.get('pageToken') || undefined;
+  const fresh = request.nextUrl.searchParams.get('fresh') === '1';
+
+  if (!playlistId || !PLAYLIST_ID_PATTERN.test(playlistId)) {
+    return NextResponse.json(
+      { error: '"id" must be a YouTube playlist ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const page = await resolvePlaylistPage(playlistId, pageToken, fresh);
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Loading playlists page by page needs YOUTUBE_API_KEY on the server' },
+        { status: 501 }
+      );
+    }
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error(`Error fetching playlist ${playlistId} page:`, error);
+    return NextResponse.json(
+      { error: getYouTubeErrorMessage(error, `playlist ${playlistId}`) },
+      { status: getYouTubeErrorStatus(error) }
+    );
+  }
+}
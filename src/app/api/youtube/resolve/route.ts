@@ -0,0 +1,42 @@
+import { resolveYouTubeUrls } from '@/lib/youtube-resolver';
+import { NextRequest, NextResponse } from 'next/server';
+
+const MAX_URLS = 50;
+
+// POST /api/youtube/resolve - body { urls: string[], fresh?: boolean }, returns { videos, playlists, errors }.
+// "fresh" skips cached playlists, for refreshing a saved one.
+export async function POST(request: NextRequest) {
+  let body: { urls?: unknown; fresh?: unknown };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  const { urls } = body;
+  if (!Array.isArray(urls) || !urls.every(url => typeof url === 'string')) {
+    return NextResponse.json(
+      { error: '"urls" must be a list of strings' },
+      { status: 400 }
+    );
+  }
+  if (urls.length > MAX_URLS) {
+    return NextResponse.json(
+      { error: `At most ${MAX_URLS} URLs can be resolved at once` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await resolveYouTubeUrls(urls, body.fresh === true));
+  } catch (error) {
+    console.error('Error resolving YouTube URLs:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve YouTube URLs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { getClientKey, RateLimiter } from '@/lib/rate-limit';
+import { getYouTubeErrorMessage, getYouTubeErrorStatus } from '@/lib/youtube-api';
+import { searchYouTube } from '@/lib/youtube-resolver';
+import { NextRequest, NextResponse } from 'next/server';
+
+const MAX_QUERY_LENGTH = 200;
+
+// Every uncached search costs 100 units of the server's quota, so one client can't run many
+const searchLimiter = new RateLimiter(10, 60 * 1000);
+
+// GET /api/youtube/search?q=<query>&pageToken=<token> - returns { results, nextPageToken }
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q')?.trim();
+  const pageToken = request.nextUrl.searchParams.get('pageToken') || undefined;
+
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { error: `"q" must be between 1 and ${MAX_QUERY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const { allowed, retryAfterMs } = searchLimiter.take(getClientKey(request.headers));
+  if (!allowed) {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    return NextResponse.json(
+      { error: `Too many searches. Try again in ${retryAfter} seconds.` },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  try {
+    const page = await searchYouTube(query, pageToken);
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Search needs YOUTUBE_API_KEY on the server' },
+        { status: 501 }
+      );
+    }
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error searching YouTube:', error);
+    return NextResponse.json(
+      { error: getYouTubeErrorMessage(error, 'search results') },
+      { status: getYouTubeErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { resolveTranscript } from '@/lib/youtube-resolver';
+import { NextRequest, NextResponse } from 'next/server';
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+// GET /api/youtube/transcript?id=<videoId> - returns { language, cues }
+export async function GET(request: NextRequest) {
+  const videoId = request.nextUrl.searchParams.get('id');
+  if (!videoId || !VIDEO_ID_PATTERN.test(videoId)) {
+    return NextResponse.json(
+      { error: '"id" must be a YouTube video id' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const transcript = await resolveTranscript(videoId);
+    if (!transcript) {
+      return NextResponse.json(
+        { error: 'This video has no captions on YouTube' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(transcript);
+  } catch (error) {
+    console.error(`Error fetching captions for ${videoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to load captions from YouTube' },
+      { status: 502 }
+    );
+  }
+}
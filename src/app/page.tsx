@@ -1,11 +1,17 @@
 'use client';
 
+import ExportMenu from '@/components/ExportMenu';
+import SessionImportDialog from '@/components/SessionImportDialog';
 import SessionView from '@/components/SessionView';
 import VideoUrlInput from '@/components/VideoUrlInput';
+import YouTubeSearchPanel from '@/components/YouTubeSearchPanel';
 import { analytics } from '@/lib/analytics';
-import { StudySession, createNewSession, deleteSession, getSavedSessions } from '@/lib/session';
+import { SessionShare, StudySession, createNewSession, deleteSession, getQuarantinedSessions, getSavedSessions } from '@/lib/session';
+import { downloadFile, exportAllSessions } from '@/lib/session-export';
+import { createShare, toSessionShare } from '@/lib/share-client';
+import { createSharePayload } from '@/lib/share-format';
 import { PlaylistInfo, VideoInfo } from '@/lib/youtube';
-import { BookOpen, Check, Clock, Copy, Github, Play, Share2, Target, Trash2 } from 'lucide-react';
+import { AlertTriangle, BookOpen, Check, Clock, Copy, Download, Github, Play, Share2, Target, Trash2, Upload } from 'lucide-react';
 import { useEffect, useState } from 'react';
 
 export default function Home() {
@@ -16,11 +22,17 @@ export default function Home() {
   const [sessionPlaylists, setSessionPlaylists] = useState<PlaylistInfo[]>([]);
   const [sourceUrls, setSourceUrls] = useState<string[]>([]); // Track original URLs
   const [isSharing, setIsSharing] = useState(false);
-  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [share, setShare] = useState<SessionShare | null>(null); // link made before the session starts
   const [copySuccess, setCopySuccess] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
 
   useEffect(() => {
-    setSavedSessions(getSavedSessions());
+    // Loading runs migrations first, so read the quarantine only afterwards
+    getSavedSessions().then(async sessions => {
+      setSavedSessions(sessions);
+      setQuarantinedCount((await getQuarantinedSessions()).length);
+    });
   }, []);
 
   const handleVideosAdded = (videos: VideoInfo[], playlists: PlaylistInfo[], urls: string[]) => {
@@ -39,6 +51,8 @@ export default function Home() {
     }
 
     const session = createNewSession(sessionName.trim(), sessionVideos, sessionPlaylists, sourceUrls);
+    // Keep the owner token so the link can be managed from the session later
+    if (share) session.share = share;
     setCurrentSession(session);
     
     // Track session creation
@@ -63,11 +77,31 @@ export default function Home() {
     );
   };
 
-  const handleDeleteSession = (sessionId: string) => {
-    deleteSession(sessionId);
+  const handleDeleteSession = async (sessionId: string) => {
+    await deleteSession(sessionId);
     setSavedSessions(prev => prev.filter(s => s.id !== sessionId));
   };
 
+  const handleSessionsImported = async (importedSessions: StudySession[]) => {
+    setSavedSessions(await getSavedSessions());
+    setShowImportDialog(false);
+
+    analytics.sessionsImported(importedSessions.length);
+  };
+
+  const handleExportAllSessions = () => {
+    downloadFile(exportAllSessions(savedSessions));
+  };
+
+  const handleDownloadQuarantined = async () => {
+    const quarantined = await getQuarantinedSessions();
+    downloadFile({
+      filename: 'focus0-unreadable-sessions.json',
+      content: JSON.stringify(quarantined, null, 2),
+      mimeType: 'application/json'
+    });
+  };
+
   const exitSession = () => {
     setCurrentSession(null);
   };
@@ -77,7 +111,7 @@ export default function Home() {
     setSessionVideos([]);
     setSessionPlaylists([]);
     setSourceUrls([]);
-    setShareLink(null);
+    setShare(null);
     setCopySuccess(false);
   };
 
@@ -89,24 +123,13 @@ export default function Home() {
     setIsSharing(true);
     
     try {
-      // Use source URL API for ultra-efficient sharing
-      const response = await fetch('/api/sessions/source-urls', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: sessionName.trim() || 'Shared Study Session',
-          sourceUrls: sourceUrls,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to create shareable session');
-      }
-
-      const { shareUrl } = await response.json();
-      setShareLink(shareUrl);
+      const created = await createShare(createSharePayload(
+        sessionName.trim() || 'Shared Study Session',
+        sessionVideos,
+        sessionPlaylists,
+        sourceUrls
+      ));
+      setShare(toSessionShare(created));
     } catch (error) {
       console.error('Error sharing session:', error);
       alert('Failed to create shareable session. Please try again.');
@@ -116,10 +139,10 @@ export default function Home() {
   };
 
   const copyShareLink = async () => {
-    if (!shareLink) return;
+    if (!share) return;
     
     try {
-      await navigator.clipboard.writeText(shareLink);
+      await navigator.clipboard.writeText(share.url);
       setCopySuccess(true);
       setTimeout(() => setCopySuccess(false), 2000);
     } catch (error) {
@@ -250,7 +273,7 @@ export default function Home() {
                   </div>
 
                   {/* Share Link Display */}
-                  {shareLink && (
+                  {share && (
                     <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
                       <h4 className="text-green-400 font-medium mb-2 flex items-center gap-2">
                         <Share2 size={16} />
@@ -262,7 +285,7 @@ export default function Home() {
                       <div className="flex gap-2">
                         <input
                           type="text"
-                          value={shareLink}
+                          value={share.url}
                           readOnly
                           className="flex-1 bg-gray-800 border border-gray-600 rounded px-3 py-2 text-sm text-gray-300 font-mono"
                         />
@@ -281,15 +304,55 @@ export default function Home() {
             </div>
 
             <VideoUrlInput onVideosAdded={handleVideosAdded} />
+            <YouTubeSearchPanel onVideosAdded={handleVideosAdded} />
           </div>
 
           {/* Right Column - Saved Sessions */}
           <div className="space-y-6">
             <div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-6">
-              <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
-                <Clock size={24} />
-                Saved Sessions
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+                  <Clock size={24} />
+                  Saved Sessions
+                </h2>
+
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setShowImportDialog(true)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-white transition-colors"
+                    title="Import sessions from a JSON backup"
+                  >
+                    <Upload size={14} />
+                    Import
+                  </button>
+                  <button
+                    onClick={handleExportAllSessions}
+                    disabled={savedSessions.length === 0}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    title="Export all sessions as a JSON backup"
+                  >
+                    <Download size={14} />
+                    Export all
+                  </button>
+                </div>
+              </div>
+
+              {quarantinedCount > 0 && (
+                <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg flex items-start gap-2">
+                  <AlertTriangle className="text-yellow-400 flex-shrink-0 mt-0.5" size={16} />
+                  <div className="text-sm">
+                    <p className="text-yellow-400">
+                      {quarantinedCount} saved session{quarantinedCount > 1 ? 's' : ''} couldn&apos;t be read and {quarantinedCount > 1 ? 'were' : 'was'} set aside.
+                    </p>
+                    <button
+                      onClick={handleDownloadQuarantined}
+                      className="text-yellow-300/80 hover:text-yellow-200 underline text-xs mt-1"
+                    >
+                      Download the raw data
+                    </button>
+                  </div>
+                </div>
+              )}
 
               {savedSessions.length === 0 ? (
                 <div className="text-center py-8">
@@ -317,12 +380,15 @@ export default function Home() {
                             </p>
                           </div>
                           
-                          <button
-                            onClick={() => handleDeleteSession(session.id)}
-                            className="text-gray-400 hover:text-red-400 p-1 transition-colors"
-                          >
-                            <Trash2 size={16} />
-                          </button>
+                          <div className="flex items-center gap-1">
+                            <ExportMenu session={session} variant="icon" />
+                            <button
+                              onClick={() => handleDeleteSession(session.id)}
+                              className="text-gray-400 hover:text-red-400 p-1 transition-colors"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
                         </div>
 
                         <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-3">
@@ -379,6 +445,14 @@ export default function Home() {
           </div>
         </div>
         
+        {showImportDialog && (
+          <SessionImportDialog
+            existingSessions={savedSessions}
+            onImported={handleSessionsImported}
+            onClose={() => setShowImportDialog(false)}
+          />
+        )}
+
         {/* Footer Attribution */}
         <footer className="mt-12 pt-8 border-t border-gray-800">
           <div className="text-center">
@@ -9,13 +9,13 @@ export async function generateMetadata({ params }: { params: { id: string } }):
   let sessionName = 'Study Session';
   
   try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'https://focus0.vercel.app'}/api/sessions?id=${sessionId}`, {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'https://focus0.vercel.app'}/api/v1/shares/${sessionId}`, {
       cache: 'no-store'
     });
     
     if (response.ok) {
       const data = await response.json();
-      sessionName = data.name || 'Study Session';
+      sessionName = data.payload?.name || 'Study Session';
     }
   } catch (error) {
     // Fallback to default name if fetch fails
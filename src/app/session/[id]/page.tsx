@@ -2,41 +2,27 @@
 
 import SessionView from '@/components/SessionView';
 import { createNewSession, getSessionById, StudySession } from '@/lib/session';
-import { parseYouTubeUrlsAsync, PlaylistInfo, VideoInfo } from '@/lib/youtube';
+import { fetchShare, ShareRequestError } from '@/lib/share-client';
+import { expandSharePayload, hasShareSnapshot, SharePayload } from '@/lib/share-format';
+import { parseYouTubeUrlsAsync } from '@/lib/youtube';
 import { ArrowLeft, ExternalLink } from 'lucide-react';
 import { useParams, useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
-interface SharedSession {
-  id: string;
-  name: string;
-  videos: VideoInfo[];
-  playlists: PlaylistInfo[];
-  createdAt: string;
-}
+// Build the viewer's local copy of a shared collection
+async function createSessionFromShare(shareId: string, payload: SharePayload): Promise<StudySession> {
+  let { videos, playlists } = expandSharePayload(payload);
 
-// Function to reconstruct session from source URLs
-async function reconstructSessionFromSourceUrls(sessionId: string, sourceUrls: string[], sessionName?: string): Promise<StudySession> {
-  try {
-    // Use the existing parseYouTubeUrlsAsync function to process the URLs
-    const result = await parseYouTubeUrlsAsync(sourceUrls);
-    
-    // Create session with reconstructed data
-    const session = createNewSession(
-      sessionName || 'Shared Study Session',
-      result.videos,
-      result.playlists,
-      sourceUrls
-    );
-    
-    // Override the ID to maintain the shared session reference
-    session.id = `shared-${sessionId}`;
-    
-    return session;
-  } catch (error) {
-    console.error('Error reconstructing session from source URLs:', error);
-    throw new Error('Failed to reconstruct session from source URLs');
+  // Old source URL links carry no snapshot, so resolve the URLs the way the home page does
+  if (!hasShareSnapshot(payload) && payload.sourceUrls) {
+    ({ videos, playlists } = await parseYouTubeUrlsAsync(payload.sourceUrls));
   }
+
+  const session = createNewSession(payload.name, videos, playlists, payload.sourceUrls);
+
+  // Override the ID to maintain the shared session reference
+  session.id = `shared-${shareId}`;
+  return session;
 }
 
 export default function SharedSessionPage() {
@@ -45,6 +31,7 @@ export default function SharedSessionPage() {
   const [session, setSession] = useState<StudySession | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [revoked, setRevoked] = useState(false);
 
   useEffect(() => {
     const sessionId = params.id as string;
@@ -58,67 +45,25 @@ export default function SharedSessionPage() {
     const loadSession = async () => {
       try {
         // First try to load as a local session
-        const localSession = getSessionById(sessionId);
+        const localSession = await getSessionById(sessionId);
         if (localSession) {
           setSession(localSession);
           setLoading(false);
           return;
         }
 
-        // If not found locally, try to load as a shared session from API
-        // First check if it's a source URL session
-        const urlParams = new URLSearchParams(window.location.search);
-        const sourcesParam = urlParams.get('sources');
-        
-        if (sourcesParam) {
-          // Handle source URL reconstruction
-          const sourceUrls = sourcesParam.split('|').filter(url => url.trim());
-          const nameParam = urlParams.get('name');
-          const sessionName = nameParam ? decodeURIComponent(nameParam) : undefined;
-          
-          try {
-            // Dynamically reconstruct the session from source URLs
-            const reconstructedSession = await reconstructSessionFromSourceUrls(sessionId, sourceUrls, sessionName);
-            setSession(reconstructedSession);
-            setLoading(false);
-            return;
-          } catch (err) {
-            console.error('Error reconstructing session from source URLs:', err);
-            setError('Failed to load session from source URLs');
-            setLoading(false);
-            return;
-          }
-        }
-        
-        // Fallback to traditional session loading
-        // Include data parameter from URL if present
-        const dataParam = urlParams.get('data');
-        
-        let apiUrl = `/api/sessions?id=${sessionId}`;
-        if (dataParam) {
-          apiUrl += `&data=${encodeURIComponent(dataParam)}`;
-        }
-        
-        const response = await fetch(apiUrl);
-        if (response.ok) {
-          const sharedSession: SharedSession = await response.json();
-          
-          // Convert shared session to StudySession format for the viewer
-          const convertedSession = createNewSession(
-            sharedSession.name,
-            sharedSession.videos,
-            sharedSession.playlists
-          );
-          
-          // Override the ID to maintain the shared session reference
-          convertedSession.id = `shared-${sessionId}`;
-          setSession(convertedSession);
-        } else if (response.status === 404) {
-          setError('Session not found or may have expired');
+        // Otherwise load it from the share API, passing along any query string old links carry
+        const share = await fetchShare(sessionId, window.location.search);
+        if (share) {
+          setSession(await createSessionFromShare(sessionId, share.payload));
         } else {
-          setError('Failed to load shared session');
+          setError('Session not found or may have expired');
         }
       } catch (err) {
+        if (err instanceof ShareRequestError && err.status === 410) {
+          setRevoked(true);
+          return;
+        }
         console.error('Error loading session:', err);
         setError('Failed to load session');
       } finally {
@@ -148,6 +93,29 @@ export default function SharedSessionPage() {
     );
   }
 
+  if (revoked) {
+    return (
+      <div className="min-h-screen bg-gray-950 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-bold text-yellow-400 mb-2">Link Revoked</h2>
+            <p className="text-gray-400">
+              The owner of this session has revoked the share link. Ask them for a new one.
+            </p>
+          </div>
+
+          <button
+            onClick={() => router.push('/')}
+            className="flex items-center gap-2 mx-auto bg-blue-500 hover:bg-blue-600 text-white px-6 py-2 rounded-lg transition-colors"
+          >
+            <ExternalLink size={16} />
+            Create New Session
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (error || !session) {
     return (
       <div className="min-h-screen bg-gray-950 flex items-center justify-center">
@@ -0,0 +1,192 @@
+'use client';
+
+import { BOOKMARK_CATEGORIES, BookmarkCategory, VideoBookmark } from '@/lib/session';
+import { VideoInfo } from '@/lib/youtube';
+import { Bookmark, Trash2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+interface BookmarksPanelProps {
+  bookmarks: VideoBookmark[];
+  videos: VideoInfo[];
+  onUpdateBookmark: (bookmarkId: string, updates: Pick<VideoBookmark, 'label' | 'category'>) => void;
+  onDeleteBookmark: (bookmarkId: string) => void;
+  onSeekToBookmark: (bookmark: VideoBookmark) => void;
+  className?: string;
+}
+
+export const BOOKMARK_CATEGORY_LABELS: Record<BookmarkCategory, string> = {
+  important: 'Important',
+  confusing: 'Confusing',
+  revisit: 'Revisit'
+};
+
+// Also used for the markers on the player's progress bar
+export const BOOKMARK_CATEGORY_COLORS: Record<BookmarkCategory | 'none', { dot: string; chip: string }> = {
+  important: { dot: 'bg-red-400', chip: 'bg-red-500/20 text-red-300 border-red-500/30' },
+  confusing: { dot: 'bg-yellow-400', chip: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30' },
+  revisit: { dot: 'bg-blue-400', chip: 'bg-blue-500/20 text-blue-300 border-blue-500/30' },
+  none: { dot: 'bg-white', chip: 'bg-gray-700/50 text-gray-300 border-gray-600' }
+};
+
+type CategoryFilter = BookmarkCategory | 'all';
+
+export default function BookmarksPanel({
+  bookmarks,
+  videos,
+  onUpdateBookmark,
+  onDeleteBookmark,
+  onSeekToBookmark,
+  className = ''
+}: BookmarksPanelProps) {
+  const [filter, setFilter] = useState<CategoryFilter>('all');
+  const [editingBookmarkId, setEditingBookmarkId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState('');
+
+  const videoNumbers = useMemo(() => {
+    const numbers = new Map<string, number>();
+    videos.forEach((video, index) => {
+      if (!numbers.has(video.id)) numbers.set(video.id, index + 1);
+    });
+    return numbers;
+  }, [videos]);
+
+  // Queue order, then position in the video. Bookmarks on videos no longer in the session are left out.
+  const visibleBookmarks = bookmarks
+    .filter(bookmark => videoNumbers.has(bookmark.videoId))
+    .filter(bookmark => filter === 'all' || bookmark.category === filter)
+    .sort((a, b) => (videoNumbers.get(a.videoId)! - videoNumbers.get(b.videoId)!) || a.timestamp - b.timestamp);
+
+  const formatTimestamp = (seconds: number) => {
+    const total = Math.floor(seconds);
+    const hours = Math.floor(total / 3600);
+    const mins = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+
+    if (hours > 0) {
+      return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const startEditing = (bookmark: VideoBookmark) => {
+    setEditingBookmarkId(bookmark.id);
+    setEditingLabel(bookmark.label ?? '');
+  };
+
+  const saveLabel = (bookmark: VideoBookmark) => {
+    onUpdateBookmark(bookmark.id, { label: editingLabel.trim() || undefined, category: bookmark.category });
+    setEditingBookmarkId(null);
+  };
+
+  // Clicking the selected category again clears it
+  const toggleCategory = (bookmark: VideoBookmark, category: BookmarkCategory) => {
+    onUpdateBookmark(bookmark.id, {
+      label: bookmark.label,
+      category: bookmark.category === category ? undefined : category
+    });
+  };
+
+  return (
+    <div className={`bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-gray-200 flex items-center gap-2">
+          <Bookmark size={16} className="text-yellow-400" />
+          Bookmarks ({visibleBookmarks.length})
+        </h3>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as CategoryFilter)}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-xs text-gray-300 outline-none focus:border-blue-500"
+        >
+          <option value="all">All</option>
+          {BOOKMARK_CATEGORIES.map(category => (
+            <option key={category} value={category}>{BOOKMARK_CATEGORY_LABELS[category]}</option>
+          ))}
+        </select>
+      </div>
+
+      {visibleBookmarks.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-4">
+          {filter === 'all'
+            ? <>Press <kbd className="bg-gray-800 px-1 py-0.5 rounded">B</kbd> while watching to bookmark a moment</>
+            : `No ${BOOKMARK_CATEGORY_LABELS[filter].toLowerCase()} bookmarks`}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {visibleBookmarks.map(bookmark => {
+            const videoNumber = videoNumbers.get(bookmark.videoId)!;
+            const video = videos[videoNumber - 1];
+
+            return (
+              <div key={bookmark.id} className="bg-gray-800/50 border border-gray-700 rounded-lg p-2 group">
+                <div className="flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full flex-shrink-0 ${BOOKMARK_CATEGORY_COLORS[bookmark.category ?? 'none'].dot}`} />
+                  <button
+                    onClick={() => onSeekToBookmark(bookmark)}
+                    className="text-xs font-mono text-blue-400 hover:text-blue-300 transition-colors flex-shrink-0"
+                    title="Jump to this moment"
+                  >
+                    #{videoNumber} · {formatTimestamp(bookmark.timestamp)}
+                  </button>
+
+                  {editingBookmarkId === bookmark.id ? (
+                    <input
+                      type="text"
+                      value={editingLabel}
+                      onChange={(e) => setEditingLabel(e.target.value)}
+                      onBlur={() => saveLabel(bookmark)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveLabel(bookmark);
+                        if (e.key === 'Escape') setEditingBookmarkId(null);
+                      }}
+                      autoFocus
+                      maxLength={200}
+                      placeholder="Label"
+                      className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-xs text-white focus:border-blue-500 outline-none"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => startEditing(bookmark)}
+                      className={`flex-1 min-w-0 text-left text-xs truncate transition-colors ${
+                        bookmark.label ? 'text-gray-200 hover:text-white' : 'text-gray-500 hover:text-gray-300'
+                      }`}
+                      title="Edit label"
+                    >
+                      {bookmark.label || 'Add a label'}
+                    </button>
+                  )}
+
+                  <button
+                    onClick={() => onDeleteBookmark(bookmark.id)}
+                    className="p-1 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all flex-shrink-0"
+                    title="Delete bookmark"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+
+                {video?.title && <p className="text-xs text-gray-500 truncate mt-1">{video.title}</p>}
+
+                <div className="flex items-center gap-1 mt-2">
+                  {BOOKMARK_CATEGORIES.map(category => (
+                    <button
+                      key={category}
+                      onClick={() => toggleCategory(bookmark, category)}
+                      className={`px-1.5 py-0.5 rounded border text-[10px] transition-colors ${
+                        bookmark.category === category
+                          ? BOOKMARK_CATEGORY_COLORS[category].chip
+                          : 'border-transparent text-gray-500 hover:text-gray-300'
+                      }`}
+                    >
+                      {BOOKMARK_CATEGORY_LABELS[category]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { analytics } from '@/lib/analytics';
+import { StudySession } from '@/lib/session';
+import { downloadFile, exportSession, SessionExportFormat } from '@/lib/session-export';
+import { Download, FileJson, FileSpreadsheet, FileText } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+interface ExportMenuProps {
+  session: StudySession;
+  variant?: 'button' | 'icon';
+  className?: string;
+}
+
+const EXPORT_OPTIONS: { format: SessionExportFormat; label: string; description: string; icon: typeof FileText }[] = [
+  { format: 'markdown', label: 'Study log', description: 'Markdown with links and notes', icon: FileText },
+  { format: 'json', label: 'Full backup', description: 'JSON, restorable later', icon: FileJson },
+  { format: 'csv', label: 'Video stats', description: 'CSV for spreadsheets', icon: FileSpreadsheet }
+];
+
+export default function ExportMenu({ session, variant = 'button', className = '' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Fixed-position anchor so the menu isn't clipped by scrollable lists
+  const [anchor, setAnchor] = useState<{ top: number; right: number } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking elsewhere or scrolling the page
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleScroll = () => setIsOpen(false);
+
+    document.addEventListener('mousedown', handleClickOutside);
+    window.addEventListener('scroll', handleScroll, true);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      window.removeEventListener('scroll', handleScroll, true);
+    };
+  }, [isOpen]);
+
+  const toggleMenu = (event: React.MouseEvent<HTMLButtonElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    setAnchor({ top: rect.bottom + 8, right: window.innerWidth - rect.right });
+    setIsOpen(prev => !prev);
+  };
+
+  const handleExport = (format: SessionExportFormat) => {
+    downloadFile(exportSession(session, format));
+    analytics.sessionExported(format);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      {variant === 'icon' ? (
+        <button
+          onClick={toggleMenu}
+          className="text-gray-400 hover:text-blue-400 p-1 transition-colors"
+          title="Export session"
+        >
+          <Download size={16} />
+        </button>
+      ) : (
+        <button
+          onClick={toggleMenu}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors font-medium"
+          title="Export session"
+        >
+          <Download size={16} />
+          <span className="hidden sm:inline">Export</span>
+        </button>
+      )}
+
+      {isOpen && anchor && (
+        <div
+          className="fixed w-56 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl overflow-hidden z-40"
+          style={{ top: anchor.top, right: anchor.right }}
+        >
+          {EXPORT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-4 py-3 hover:bg-gray-800 transition-colors flex items-start gap-3"
+            >
+              <Icon size={16} className="text-blue-400 mt-0.5 flex-shrink-0" />
+              <div>
+                <div className="text-sm text-white font-medium">{label}</div>
+                <div className="text-xs text-gray-400">{description}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
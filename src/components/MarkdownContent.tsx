@@ -0,0 +1,142 @@
+'use client';
+
+import { Fragment, ReactNode } from 'react';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+// Inline tokens: `code`, **bold**, *italic* / _italic_, [label](https://...)
+const INLINE_PATTERN = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*]+\*|_[^_]+_|\[[^\]]+\]\([^)\s]+\))/g;
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).filter(Boolean).map((part, index) => {
+    const key = `${keyPrefix}-${index}`;
+
+    if (part.startsWith('`') && part.endsWith('`')) {
+      return (
+        <code key={key} className="bg-gray-800 px-1 py-0.5 rounded text-xs font-mono">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+
+    if (part.startsWith('**') && part.endsWith('**')) {
+      return <strong key={key} className="font-semibold text-white">{part.slice(2, -2)}</strong>;
+    }
+
+    if ((part.startsWith('*') && part.endsWith('*')) || (part.startsWith('_') && part.endsWith('_'))) {
+      return <em key={key}>{part.slice(1, -1)}</em>;
+    }
+
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      const [, label, href] = link;
+      // Only allow web links so notes can't inject javascript: URLs
+      if (/^https?:\/\//i.test(href)) {
+        return (
+          <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">
+            {label}
+          </a>
+        );
+      }
+      return <Fragment key={key}>{label}</Fragment>;
+    }
+
+    return <Fragment key={key}>{part}</Fragment>;
+  });
+}
+
+function renderLines(lines: string[], keyPrefix: string): ReactNode[] {
+  return lines.flatMap((line, index) => {
+    const rendered = renderInline(line, `${keyPrefix}-${index}`);
+    return index < lines.length - 1 ? [...rendered, <br key={`${keyPrefix}-br-${index}`} />] : rendered;
+  });
+}
+
+// Minimal Markdown renderer for notes: headings, lists, code blocks and inline formatting.
+// Builds React elements directly so user content is never injected as HTML.
+export default function MarkdownContent({ content, className = '' }: MarkdownContentProps) {
+  const blocks: ReactNode[] = [];
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    if (line.trim().startsWith('```')) {
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // Skip closing fence
+      blocks.push(
+        <pre key={key} className="bg-gray-800 rounded p-2 text-xs font-mono overflow-x-auto">
+          <code>{codeLines.join('\n')}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    // Heading
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      const sizes = ['text-base', 'text-sm', 'text-sm'];
+      blocks.push(
+        <p key={key} className={`font-semibold text-white ${sizes[heading[1].length - 1]}`}>
+          {renderInline(heading[2], key)}
+        </p>
+      );
+      i++;
+      continue;
+    }
+
+    // Unordered or ordered list
+    const listMatch = line.match(/^\s*([-*]|\d+\.)\s+/);
+    if (listMatch) {
+      const ordered = /\d/.test(listMatch[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(ordered ? /^\s*\d+\.\s+(.*)$/ : /^\s*[-*]\s+(.*)$/);
+        if (!item) break;
+        items.push(item[1]);
+        i++;
+      }
+      const ListTag = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <ListTag key={key} className={`pl-5 space-y-0.5 ${ordered ? 'list-decimal' : 'list-disc'}`}>
+          {items.map((item, index) => (
+            <li key={index}>{renderInline(item, `${key}-${index}`)}</li>
+          ))}
+        </ListTag>
+      );
+      continue;
+    }
+
+    // Paragraph: consecutive non-empty lines that don't start another block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !lines[i].trim().startsWith('```') &&
+      !/^(#{1,3})\s+/.test(lines[i]) &&
+      !/^\s*([-*]|\d+\.)\s+/.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+  }
+
+  return <div className={`space-y-2 break-words ${className}`}>{blocks}</div>;
+}
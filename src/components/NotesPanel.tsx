@@ -0,0 +1,217 @@
+'use client';
+
+import { VideoNote } from '@/lib/session';
+import { VideoInfo } from '@/lib/youtube';
+import { Clock, Edit3, NotebookPen, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import MarkdownContent from './MarkdownContent';
+
+interface NotesPanelProps {
+  notes: VideoNote[];
+  videos: VideoInfo[];
+  currentVideoIndex: number;
+  getCurrentTime: () => number;
+  onAddNote: (timestamp: number, content: string) => void;
+  onUpdateNote: (noteId: string, content: string) => void;
+  onDeleteNote: (noteId: string) => void;
+  onSeekToNote: (note: VideoNote) => void;
+  className?: string;
+}
+
+export default function NotesPanel({
+  notes,
+  videos,
+  currentVideoIndex,
+  getCurrentTime,
+  onAddNote,
+  onUpdateNote,
+  onDeleteNote,
+  onSeekToNote,
+  className = ''
+}: NotesPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [draftTimestamp, setDraftTimestamp] = useState<number | null>(null);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const [showAllVideos, setShowAllVideos] = useState(false);
+
+  const currentVideo = videos[currentVideoIndex];
+
+  const visibleNotes = notes
+    .filter(note => showAllVideos || note.videoId === currentVideo?.id)
+    .sort((a, b) => {
+      if (a.videoId !== b.videoId) {
+        return videos.findIndex(v => v.id === a.videoId) - videos.findIndex(v => v.id === b.videoId);
+      }
+      return a.timestamp - b.timestamp;
+    });
+
+  const formatTimestamp = (seconds: number) => {
+    const total = Math.floor(seconds);
+    const hours = Math.floor(total / 3600);
+    const mins = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+
+    if (hours > 0) {
+      return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  // Stamp the note with the moment the user started writing, not when they hit save
+  const handleDraftFocus = () => {
+    if (draftTimestamp === null) {
+      setDraftTimestamp(getCurrentTime());
+    }
+  };
+
+  const saveDraft = () => {
+    if (!draft.trim()) return;
+
+    onAddNote(draftTimestamp ?? getCurrentTime(), draft.trim());
+    setDraft('');
+    setDraftTimestamp(null);
+  };
+
+  const startEditing = (note: VideoNote) => {
+    setEditingNoteId(note.id);
+    setEditingContent(note.content);
+  };
+
+  const saveEdit = () => {
+    if (!editingNoteId || !editingContent.trim()) return;
+
+    onUpdateNote(editingNoteId, editingContent.trim());
+    setEditingNoteId(null);
+    setEditingContent('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>, onSubmit: () => void) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className={`bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-gray-200 flex items-center gap-2">
+          <NotebookPen size={16} className="text-purple-400" />
+          Notes ({visibleNotes.length})
+        </h3>
+        <button
+          onClick={() => setShowAllVideos(prev => !prev)}
+          className="text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          {showAllVideos ? 'This video' : 'All videos'}
+        </button>
+      </div>
+
+      {/* Composer */}
+      <div className="space-y-2 mb-3">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onFocus={handleDraftFocus}
+          onKeyDown={(e) => handleKeyDown(e, saveDraft)}
+          placeholder="Write a note (Markdown supported)..."
+          className="w-full h-20 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none resize-none"
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500 flex items-center gap-1">
+            <Clock size={12} />
+            {draftTimestamp !== null ? `At ${formatTimestamp(draftTimestamp)}` : 'Stamped when you start typing'}
+          </span>
+          <button
+            onClick={saveDraft}
+            disabled={!draft.trim()}
+            className="flex items-center gap-1 px-3 py-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-xs rounded transition-colors"
+            title="Add note (Ctrl+Enter)"
+          >
+            <Plus size={12} />
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* Notes List */}
+      {visibleNotes.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-4">
+          No notes {showAllVideos ? 'in this session' : 'for this video'} yet
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {visibleNotes.map(note => {
+            const videoIndex = videos.findIndex(v => v.id === note.videoId);
+            const video = videos[videoIndex];
+
+            return (
+              <div key={note.id} className="bg-gray-800/50 border border-gray-700 rounded-lg p-3 group">
+                <div className="flex items-center justify-between mb-1">
+                  <button
+                    onClick={() => onSeekToNote(note)}
+                    className="text-xs font-mono text-blue-400 hover:text-blue-300 transition-colors"
+                    title="Jump to this moment"
+                  >
+                    {showAllVideos && videoIndex >= 0 && `#${videoIndex + 1} · `}
+                    {formatTimestamp(note.timestamp)}
+                  </button>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startEditing(note)}
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                      title="Edit note"
+                    >
+                      <Edit3 size={12} />
+                    </button>
+                    <button
+                      onClick={() => onDeleteNote(note.id)}
+                      className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                      title="Delete note"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+
+                {showAllVideos && video?.title && (
+                  <p className="text-xs text-gray-500 truncate mb-1">{video.title}</p>
+                )}
+
+                {editingNoteId === note.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editingContent}
+                      onChange={(e) => setEditingContent(e.target.value)}
+                      onKeyDown={(e) => handleKeyDown(e, saveEdit)}
+                      autoFocus
+                      className="w-full h-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:border-blue-500 outline-none resize-none"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setEditingNoteId(null)}
+                        className="px-2 py-1 text-xs text-gray-400 hover:text-white transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={saveEdit}
+                        disabled={!editingContent.trim()}
+                        className="px-2 py-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 text-white text-xs rounded transition-colors"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <MarkdownContent content={note.content} className="text-sm text-gray-300" />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
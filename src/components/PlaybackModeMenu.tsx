@@ -0,0 +1,87 @@
+'use client';
+
+import { PLAYBACK_MODE_LABELS } from '@/lib/playback-order';
+import { PLAYBACK_MODES, PlaybackMode } from '@/lib/session';
+import { ArrowRight, ListChecks, Repeat, Repeat1, Shuffle } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+interface PlaybackModeMenuProps {
+  mode: PlaybackMode;
+  onChange: (mode: PlaybackMode) => void;
+  className?: string;
+}
+
+const MODE_ICONS: Record<PlaybackMode, typeof ArrowRight> = {
+  'sequential': ArrowRight,
+  'shuffle': Shuffle,
+  'repeat-one': Repeat1,
+  'repeat-all': Repeat,
+  'unwatched-first': ListChecks
+};
+
+const MODE_DESCRIPTIONS: Record<PlaybackMode, string> = {
+  'sequential': 'Play the queue top to bottom',
+  'shuffle': 'Every video once, in random order',
+  'repeat-one': 'Replay the current video',
+  'repeat-all': 'Start over after the last video',
+  'unwatched-first': 'Skip videos already watched'
+};
+
+export default function PlaybackModeMenu({ mode, onChange, className = '' }: PlaybackModeMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const Icon = MODE_ICONS[mode];
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-1.5 transition-colors ${mode === 'sequential' ? 'text-gray-400 hover:text-white' : 'text-blue-400 hover:text-blue-300'}`}
+        title={`Playback mode: ${PLAYBACK_MODE_LABELS[mode]}`}
+      >
+        <Icon size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-60 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl overflow-hidden z-40">
+          {PLAYBACK_MODES.map(option => {
+            const OptionIcon = MODE_ICONS[option];
+            return (
+              <button
+                key={option}
+                onClick={() => {
+                  onChange(option);
+                  setIsOpen(false);
+                }}
+                className={`w-full flex items-start gap-3 px-4 py-3 text-left transition-colors ${
+                  option === mode ? 'bg-blue-500/20 text-blue-400' : 'text-white hover:bg-gray-800'
+                }`}
+              >
+                <OptionIcon size={16} className="mt-0.5 flex-shrink-0" />
+                <div>
+                  <div className="text-sm font-medium">{PLAYBACK_MODE_LABELS[option]}</div>
+                  <div className="text-xs text-gray-400">{MODE_DESCRIPTIONS[option]}</div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
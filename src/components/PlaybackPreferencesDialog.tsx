@@ -0,0 +1,166 @@
+'use client';
+
+import {
+  PLAYBACK_RATES,
+  PlaybackPreferenceKey,
+  PlaybackPreferences,
+  PlaybackPreferenceScope,
+  QUALITY_LABELS,
+  resolvePlaybackPreferences,
+  setPlaybackPreference
+} from '@/lib/playback-preferences';
+import { VideoInfo } from '@/lib/youtube';
+import { SlidersHorizontal, X } from 'lucide-react';
+
+interface PlaybackPreferencesDialogProps {
+  globalPreferences: PlaybackPreferences;
+  sessionPreferences?: PlaybackPreferences;
+  videoPreferences?: PlaybackPreferences;
+  video?: VideoInfo; // the current video, for the per-video section
+  onChange: (scope: PlaybackPreferenceScope, preferences: PlaybackPreferences) => void;
+  onClose: () => void;
+}
+
+const SCOPE_TITLES: Record<PlaybackPreferenceScope, string> = {
+  global: 'Defaults',
+  session: 'This session',
+  video: 'This video'
+};
+
+const SCOPE_DESCRIPTIONS: Record<PlaybackPreferenceScope, string> = {
+  global: 'Every session in this browser',
+  session: 'Overrides the defaults for every video here',
+  video: 'Overrides the session, wherever this video plays'
+};
+
+function formatPreference(key: PlaybackPreferenceKey, value: PlaybackPreferences[PlaybackPreferenceKey]): string {
+  switch (key) {
+    case 'playbackRate':
+      return `${value}x`;
+    case 'quality':
+      return value === undefined ? 'Highest available' : QUALITY_LABELS[value as string] || String(value);
+    default:
+      return value ? 'On' : 'Off';
+  }
+}
+
+// Select values are strings; '' means "not set here"
+function parsePreference(key: PlaybackPreferenceKey, value: string): PlaybackPreferences[PlaybackPreferenceKey] {
+  if (value === '') return undefined;
+  switch (key) {
+    case 'playbackRate':
+      return parseFloat(value);
+    case 'quality':
+      return value;
+    default:
+      return value === 'true';
+  }
+}
+
+const PREFERENCE_FIELDS: { key: PlaybackPreferenceKey; label: string; options: string[] }[] = [
+  { key: 'playbackRate', label: 'Speed', options: PLAYBACK_RATES.map(String) },
+  { key: 'quality', label: 'Quality', options: Object.keys(QUALITY_LABELS) },
+  { key: 'captions', label: 'Captions', options: ['true', 'false'] },
+  { key: 'muted', label: 'Muted', options: ['true', 'false'] }
+];
+
+export default function PlaybackPreferencesDialog({
+  globalPreferences,
+  sessionPreferences,
+  videoPreferences,
+  video,
+  onChange,
+  onClose
+}: PlaybackPreferencesDialogProps) {
+  const layers: Record<PlaybackPreferenceScope, PlaybackPreferences | undefined> = {
+    global: globalPreferences,
+    session: sessionPreferences,
+    video: videoPreferences
+  };
+  // What each scope falls back to when a value isn't set there
+  const inherited: Record<PlaybackPreferenceScope, PlaybackPreferences> = {
+    global: resolvePlaybackPreferences(),
+    session: resolvePlaybackPreferences(globalPreferences),
+    video: resolvePlaybackPreferences(globalPreferences, sessionPreferences)
+  };
+  const scopes: PlaybackPreferenceScope[] = video ? ['global', 'session', 'video'] : ['global', 'session'];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+              <SlidersHorizontal className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-white">Playback Preferences</h3>
+              <p className="text-sm text-gray-400">Applied whenever a video loads</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-6 space-y-5">
+          {scopes.map(scope => (
+            <div key={scope}>
+              <h4 className="text-sm font-medium text-gray-200">{SCOPE_TITLES[scope]}</h4>
+              <p className="text-xs text-gray-500 mb-2 truncate">
+                {scope === 'video' && video ? video.title || video.id : SCOPE_DESCRIPTIONS[scope]}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {PREFERENCE_FIELDS.map(({ key, label, options }) => {
+                  const value = layers[scope]?.[key];
+                  const inheritedLabel = formatPreference(key, inherited[scope][key]);
+
+                  return (
+                    <label key={key} className="text-xs text-gray-400">
+                      {label}
+                      <select
+                        value={value === undefined ? '' : String(value)}
+                        onChange={(e) => onChange(scope, setPlaybackPreference(layers[scope], key, parsePreference(key, e.target.value)))}
+                        className="mt-1 w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 outline-none focus:border-blue-500"
+                      >
+                        <option value="">{scope === 'global' ? `Default (${inheritedLabel})` : `Inherit (${inheritedLabel})`}</option>
+                        {options.map(option => (
+                          <option key={option} value={option}>
+                            {formatPreference(key, parsePreference(key, option))}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <p className="text-xs text-gray-500">
+            Changes made in the player are remembered for this session, or for the video if it has its own setting.
+          </p>
+
+          <button
+            onClick={onClose}
+            className="w-full bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
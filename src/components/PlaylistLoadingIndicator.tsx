@@ -0,0 +1,58 @@
+'use client';
+
+import { PlaylistLoadProgress } from '@/hooks/usePlaylistStreaming';
+import { AlertCircle, Loader2, RefreshCw, X } from 'lucide-react';
+
+interface PlaylistLoadingIndicatorProps {
+  progress: PlaylistLoadProgress;
+  error: string | null;
+  onCancel: () => void;
+  onRetry: () => void;
+}
+
+export default function PlaylistLoadingIndicator({ progress, error, onCancel, onRetry }: PlaylistLoadingIndicatorProps) {
+  const percent = progress.total ? Math.min(100, (progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <div className={`mb-3 rounded-lg border p-2 text-xs ${
+      error ? 'bg-red-500/10 border-red-500/20' : 'bg-gray-800/50 border-gray-700'
+    }`}>
+      <div className="flex items-center gap-2">
+        {error
+          ? <AlertCircle size={14} className="text-red-400 flex-shrink-0" />
+          : <Loader2 size={14} className="text-blue-400 animate-spin flex-shrink-0" />}
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-gray-300" title={progress.title}>{progress.title}</div>
+          <div className="text-gray-500">
+            Loaded {progress.loaded}{progress.total !== undefined && ` / ${progress.total}`}
+            {progress.remainingPlaylists > 0 && ` · ${progress.remainingPlaylists} more playlist${progress.remainingPlaylists === 1 ? '' : 's'} waiting`}
+          </div>
+        </div>
+        {error && (
+          <button
+            onClick={onRetry}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+            title="Try again"
+          >
+            <RefreshCw size={14} />
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="p-1 text-gray-400 hover:text-white transition-colors"
+          title="Stop loading and keep the videos loaded so far"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {error ? (
+        <p className="mt-1 text-red-400">{error}</p>
+      ) : progress.total !== undefined && (
+        <div className="mt-2 h-0.5 bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { hasPlaylistChanges, PlaylistUpdate } from '@/lib/playlist-sync';
+import { VideoInfo } from '@/lib/youtube';
+import { AlertCircle, ArrowUpDown, Check, Loader2, Minus, Plus, RefreshCw, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface PlaylistSyncDialogProps {
+  updates: PlaylistUpdate[] | null; // null while checking
+  checkOnResume: boolean;
+  onCheckOnResumeChange: (enabled: boolean) => void;
+  onApply: (updates: PlaylistUpdate[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 5;
+
+function VideoList({ videos, className }: { videos: VideoInfo[]; className: string }) {
+  return (
+    <ul className={`mt-1 space-y-0.5 text-xs ${className}`}>
+      {videos.slice(0, PREVIEW_LIMIT).map(video => (
+        <li key={video.id} className="truncate">{video.title || video.id}</li>
+      ))}
+      {videos.length > PREVIEW_LIMIT && (
+        <li className="text-gray-500">and {videos.length - PREVIEW_LIMIT} more</li>
+      )}
+    </ul>
+  );
+}
+
+export default function PlaylistSyncDialog({ updates, checkOnResume, onCheckOnResumeChange, onApply, onClose }: PlaylistSyncDialogProps) {
+  const changed = (updates ?? []).filter(update => update.diff && hasPlaylistChanges(update.diff));
+  const failed = (updates ?? []).filter(update => update.error);
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+
+  // Every changed playlist is selected until the user unticks one
+  const isSelected = (playlistId: string) => selected === null || selected.has(playlistId);
+
+  const toggle = (playlistId: string) => {
+    const next = new Set(selected ?? changed.map(update => update.playlist.id));
+    if (next.has(playlistId)) next.delete(playlistId);
+    else next.add(playlistId);
+    setSelected(next);
+  };
+
+  const toApply = changed.filter(update => isSelected(update.playlist.id));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+              <RefreshCw className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-white">Playlist Updates</h3>
+              <p className="text-sm text-gray-400">
+                {updates === null ? 'Checking YouTube for changes...' : 'Compared with the playlists on YouTube'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-6 space-y-4">
+          {updates === null && (
+            <div className="flex items-center justify-center gap-2 py-6 text-gray-400">
+              <Loader2 size={20} className="animate-spin" />
+              Checking playlists...
+            </div>
+          )}
+
+          {updates !== null && changed.length === 0 && failed.length === 0 && (
+            <div className="flex items-center gap-3 bg-green-500/10 border border-green-500/20 rounded-lg p-4">
+              <Check className="text-green-400" size={20} />
+              <p className="text-green-400">Every playlist is up to date.</p>
+            </div>
+          )}
+
+          {changed.map(({ playlist, diff }) => diff && (
+            <label
+              key={playlist.id}
+              className="block bg-gray-800/50 border border-gray-700 rounded-lg p-4 cursor-pointer"
+            >
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={isSelected(playlist.id)}
+                  onChange={() => toggle(playlist.id)}
+                  className="mt-1 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                />
+                <div className="min-w-0 flex-1">
+                  <h4 className="text-white font-medium truncate">{playlist.title || `Playlist ${playlist.id}`}</h4>
+                  <div className="flex items-center gap-3 text-xs text-gray-400 mt-1">
+                    <span className="flex items-center gap-1"><Plus size={12} className="text-green-400" />{diff.added.length} added</span>
+                    <span className="flex items-center gap-1"><Minus size={12} className="text-red-400" />{diff.removed.length} removed</span>
+                    <span className="flex items-center gap-1"><ArrowUpDown size={12} className="text-yellow-400" />{diff.moved.length} moved</span>
+                  </div>
+                  {diff.added.length > 0 && <VideoList videos={diff.added} className="text-green-300/80" />}
+                  {diff.removed.length > 0 && <VideoList videos={diff.removed} className="text-red-300/80 line-through" />}
+                  {diff.moved.length > 0 && <VideoList videos={diff.moved} className="text-yellow-300/80" />}
+                </div>
+              </div>
+            </label>
+          ))}
+
+          {failed.map(({ playlist, error }) => (
+            <div key={playlist.id} className="flex items-start gap-2 text-sm text-red-400">
+              <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+              <span>{playlist.title || `Playlist ${playlist.id}`}: {error}</span>
+            </div>
+          ))}
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={checkOnResume}
+              onChange={(e) => onCheckOnResumeChange(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+            />
+            Check for changes when I resume this session
+          </label>
+
+          <div className="flex gap-3 pt-2">
+            {changed.length > 0 && (
+              <button
+                onClick={() => onApply(toApply)}
+                disabled={toApply.length === 0}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                Apply changes
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              {changed.length > 0 ? 'Not now' : 'Close'}
+            </button>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Watch progress and notes stay with each video. Removed videos leave the queue but keep their progress if they come back.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { getVideoError, StudySession } from '@/lib/session';
+import { getUnplayableVideos } from '@/lib/session-queue';
+import { getPlayerErrorKind, PLAYER_ERROR_MESSAGES } from '@/lib/youtube';
+import { Trash2, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+interface SessionCleanupDialogProps {
+  session: StudySession;
+  onRemove: (videoIds: Set<string>) => void;
+  onAutoSkipChange: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+export default function SessionCleanupDialog({ session, onRemove, onAutoSkipChange, onClose }: SessionCleanupDialogProps) {
+  const deadVideos = useMemo(() => getUnplayableVideos(session), [session]);
+  const [selected, setSelected] = useState(() => new Set(deadVideos.map(video => video.id)));
+
+  const toggle = (videoId: string) => {
+    const next = new Set(selected);
+    if (next.has(videoId)) next.delete(videoId);
+    else next.add(videoId);
+    setSelected(next);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-red-500 to-orange-600 rounded-lg flex items-center justify-center">
+              <Trash2 className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-white">Clean Up Session</h3>
+              <p className="text-sm text-gray-400">Videos that can&apos;t be played here</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-6 space-y-4">
+          {deadVideos.length === 0 ? (
+            <p className="text-sm text-gray-400">Every video in this session has played without errors so far.</p>
+          ) : (
+            <div className="space-y-2">
+              {deadVideos.map(video => {
+                const error = getVideoError(session, video.id);
+                const message = error ? PLAYER_ERROR_MESSAGES[getPlayerErrorKind(error.code)] : null;
+
+                return (
+                  <label
+                    key={video.id}
+                    className="flex items-start gap-3 bg-gray-800/50 border border-gray-700 rounded-lg p-3 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(video.id)}
+                      onChange={() => toggle(video.id)}
+                      className="mt-1 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm text-white truncate">{video.title || video.id}</div>
+                      {message && <div className="text-xs text-red-400 mt-0.5">{message.label}: {message.detail}</div>}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={session.autoSkipUnavailable ?? false}
+              onChange={(e) => onAutoSkipChange(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+            />
+            Skip unavailable videos automatically
+          </label>
+
+          <div className="flex gap-3 pt-2">
+            {deadVideos.length > 0 && (
+              <button
+                onClick={() => onRemove(selected)}
+                disabled={selected.size === 0}
+                className="flex-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                Remove {selected.size} {selected.size === 1 ? 'video' : 'videos'}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
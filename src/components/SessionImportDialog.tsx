@@ -0,0 +1,176 @@
+'use client';
+
+import { saveSession, StudySession } from '@/lib/session';
+import {
+  ImportConflictResolution,
+  parseSessionBackup,
+  ParsedSessionBackup,
+  resolveImportedSessions
+} from '@/lib/session-import';
+import { AlertCircle, CheckCircle, Upload, X } from 'lucide-react';
+import { useRef, useState } from 'react';
+
+interface SessionImportDialogProps {
+  existingSessions: StudySession[];
+  onImported: (sessions: StudySession[]) => void;
+  onClose: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ImportConflictResolution, string> = {
+  merge: 'Merge',
+  replace: 'Replace',
+  keepBoth: 'Keep both'
+};
+
+export default function SessionImportDialog({ existingSessions, onImported, onClose }: SessionImportDialogProps) {
+  const [parsed, setParsed] = useState<ParsedSessionBackup | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ImportConflictResolution>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const existingIds = new Set(existingSessions.map(s => s.id));
+  const conflicts = parsed?.sessions.filter(s => existingIds.has(s.id)) ?? [];
+  const newSessions = parsed?.sessions.filter(s => !existingIds.has(s.id)) ?? [];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParsed(parseSessionBackup(await file.text()));
+    setResolutions({});
+  };
+
+  const handleImport = async () => {
+    if (!parsed || parsed.sessions.length === 0 || isImporting) return;
+
+    setIsImporting(true);
+    try {
+      const resolved = resolveImportedSessions(existingSessions, parsed.sessions, resolutions);
+      await Promise.all(resolved.map(saveSession));
+      onImported(resolved);
+    } catch (error) {
+      console.error('Error importing sessions:', error);
+      alert('Failed to import sessions. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+              <Upload className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-white">Import Sessions</h3>
+              <p className="text-sm text-gray-400">Restore sessions from a Focus0 JSON backup</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full border-2 border-dashed border-gray-600 hover:border-blue-500 rounded-lg p-6 text-center transition-colors"
+          >
+            <Upload className="mx-auto text-gray-400 mb-2" size={24} />
+            <p className="text-sm text-gray-300">{fileName ?? 'Choose a backup file'}</p>
+            <p className="text-xs text-gray-500 mt-1">Full backups and single-session JSON exports are both accepted</p>
+          </button>
+
+          {/* Validation errors */}
+          {parsed && parsed.errors.length > 0 && (
+            <div className="space-y-2">
+              {parsed.errors.map((error, index) => (
+                <div key={index} className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2">
+                  <AlertCircle className="text-red-400 flex-shrink-0 mt-0.5" size={16} />
+                  <span className="text-red-400 text-sm">{error}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* New sessions */}
+          {newSessions.length > 0 && (
+            <div className="p-3 bg-green-500/10 border border-green-500/20 rounded-lg flex items-center gap-2">
+              <CheckCircle className="text-green-400" size={16} />
+              <span className="text-green-400 text-sm">
+                {newSessions.length} new session{newSessions.length > 1 ? 's' : ''} will be added
+              </span>
+            </div>
+          )}
+
+          {/* Conflicts */}
+          {conflicts.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-300">
+                Already saved ({conflicts.length}) - choose what to do with each
+              </h4>
+              {conflicts.map(session => (
+                <div key={session.id} className="bg-gray-800/50 border border-gray-600 rounded-lg p-3">
+                  <div className="text-sm text-white truncate mb-2">{session.name}</div>
+                  <div className="flex gap-1">
+                    {(Object.keys(RESOLUTION_LABELS) as ImportConflictResolution[]).map(resolution => (
+                      <button
+                        key={resolution}
+                        onClick={() => setResolutions(prev => ({ ...prev, [session.id]: resolution }))}
+                        className={`flex-1 px-2 py-1 rounded text-xs transition-colors ${
+                          (resolutions[session.id] ?? 'merge') === resolution
+                            ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600 border border-transparent'
+                        }`}
+                      >
+                        {RESOLUTION_LABELS[resolution]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 p-6 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!parsed || parsed.sessions.length === 0 || isImporting}
+            className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            Import {parsed?.sessions.length ? parsed.sessions.length : ''} session{parsed?.sessions.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,68 @@
 'use client';
 
+import { usePlaylistStreaming } from '@/hooks/usePlaylistStreaming';
 import { useWindowFocus } from '@/hooks/useWindowFocus';
-import { PomodoroSettings, saveSession, StudySession } from '@/lib/session';
-import { Check, Copy, ExternalLink, GripVertical, Share2, SkipBack, SkipForward, Target, X } from 'lucide-react';
+import { analytics } from '@/lib/analytics';
+import {
+  getGlobalPlaybackPreferences,
+  getPreferenceScopeForChange,
+  PlaybackPreferenceKey,
+  PlaybackPreferences,
+  PlaybackPreferenceScope,
+  resolvePlaybackPreferences,
+  saveGlobalPlaybackPreferences,
+  setPlaybackPreference
+} from '@/lib/playback-preferences';
+import { createShuffleOrder, getNextQueueIndex, getPlaybackMode, getPlaybackProgress, getPreviousQueueIndex } from '@/lib/playback-order';
+import { checkPlaylistsForUpdates, hasPlaylistChanges, PlaylistUpdate } from '@/lib/playlist-sync';
+import {
+  generateBookmarkId,
+  generateNoteId,
+  generateSegmentId,
+  getAllSessionVideos,
+  getStartPosition,
+  getVideoProgress,
+  markVideoCompleted,
+  PlaybackMode,
+  PomodoroSettings,
+  recordVideoProgress,
+  saveSession,
+  SessionShare,
+  StudySession,
+  VideoBookmark,
+  VideoNote,
+  VideoSegment
+} from '@/lib/session';
+import {
+  addToQueue,
+  appendPlaylistPage,
+  applyPlaylistUpdate,
+  getUnplayableVideos,
+  moveQueueVideo,
+  playQueueVideoNext,
+  removeQueueVideo,
+  removeVideos,
+  stopPlaylistLoading
+} from '@/lib/session-queue';
+import { createShare, toSessionShare } from '@/lib/share-client';
+import { createSharePayload } from '@/lib/share-format';
+import { isPermanentPlayerError, PlaylistInfo, PlaylistPage, VideoInfo } from '@/lib/youtube';
+import { Ban, GripVertical, Plus, RefreshCw, Share2, SkipBack, SkipForward, SlidersHorizontal, Target, Trash2, X } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import BookmarksPanel from './BookmarksPanel';
+import ExportMenu from './ExportMenu';
+import NotesPanel from './NotesPanel';
+import PlaybackModeMenu from './PlaybackModeMenu';
+import PlaybackPreferencesDialog from './PlaybackPreferencesDialog';
+import PlaylistLoadingIndicator from './PlaylistLoadingIndicator';
+import PlaylistSyncDialog from './PlaylistSyncDialog';
+import SessionCleanupDialog from './SessionCleanupDialog';
+import ShareSessionDialog from './ShareSessionDialog';
+import TranscriptPanel from './TranscriptPanel';
 import UnifiedProgress from './UnifiedProgress';
-import VideoPlayer from './VideoPlayer';
+import VideoPlayer, { VideoPlayerHandle } from './VideoPlayer';
+import VideoQueueList from './VideoQueueList';
+import VideoUrlInput from './VideoUrlInput';
 
 interface SessionViewProps {
   session: StudySession;
@@ -16,15 +73,22 @@ interface SessionViewProps {
 export default function SessionView({ session, onUpdateSession, onExit }: SessionViewProps) {
   const [currentSession, setCurrentSession] = useState(session);
   const [showShareModal, setShowShareModal] = useState(false);
-  const [shareLink, setShareLink] = useState<string | null>(null);
-  const [sessionWarning, setSessionWarning] = useState<string | null>(null);
+  const [shareJustCopied, setShareJustCopied] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
-  const [copySuccess, setCopySuccess] = useState(false);
+  const [showSyncDialog, setShowSyncDialog] = useState(false);
+  const [showCleanupDialog, setShowCleanupDialog] = useState(false);
+  const [showAddVideos, setShowAddVideos] = useState(false);
+  const [showPreferencesDialog, setShowPreferencesDialog] = useState(false);
+  const [globalPreferences, setGlobalPreferences] = useState(getGlobalPlaybackPreferences);
+  const [playlistUpdates, setPlaylistUpdates] = useState<PlaylistUpdate[] | null>(null);
   const [sidebarWidth, setSidebarWidth] = useState(384); // Default 24rem = 384px
   const [isResizing, setIsResizing] = useState(false);
   const [isLargeScreen, setIsLargeScreen] = useState(false);
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
   const resizeRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  // Latest session, so updates fired from timers never build on a stale render
+  const sessionRef = useRef(session);
   const { isWindowFocused } = useWindowFocus();
 
   // Handle screen size changes
@@ -46,12 +110,74 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
     ...currentSession.playlists.flatMap(p => p.videos)
   ], [currentSession.videos, currentSession.playlists]);
 
+  // Where the current video starts playing; only changes when switching videos
+  const [startPosition, setStartPosition] = useState(() => {
+    const initialVideo = getAllSessionVideos(session)[session.currentVideoIndex];
+    return initialVideo ? getStartPosition(initialVideo, getVideoProgress(session, initialVideo.id)) : 0;
+  });
+
   const updateSession = useCallback((updates: Partial<StudySession>) => {
-    const updatedSession = { ...currentSession, ...updates };
+    const updatedSession = { ...sessionRef.current, ...updates };
+    sessionRef.current = updatedSession;
     setCurrentSession(updatedSession);
     onUpdateSession(updatedSession);
-    saveSession(updatedSession);
-  }, [currentSession, onUpdateSession]);
+    saveSession(updatedSession).catch(error => {
+      console.error('Error saving session:', error);
+    });
+  }, [onUpdateSession]);
+
+  // Later pages of long playlists land behind the videos already queued
+  const handlePlaylistPage = useCallback((playlistId: string, page: PlaylistPage) => {
+    const { playlists, currentVideoIndex } = appendPlaylistPage(sessionRef.current, playlistId, page);
+    updateSession({ playlists, currentVideoIndex });
+  }, [updateSession]);
+
+  const handleCancelPlaylistLoading = useCallback((playlistId: string) => {
+    updateSession({ playlists: stopPlaylistLoading(sessionRef.current, playlistId).playlists });
+  }, [updateSession]);
+
+  const playlistStreaming = usePlaylistStreaming(currentSession, handlePlaylistPage, handleCancelPlaylistLoading);
+
+  const refreshPlaylists = useCallback(async () => {
+    setPlaylistUpdates(null);
+    setShowSyncDialog(true);
+    setPlaylistUpdates(await checkPlaylistsForUpdates(sessionRef.current.playlists));
+  }, []);
+
+  // Opt-in check when the session opens; the dialog only shows up if something changed
+  useEffect(() => {
+    const resumed = sessionRef.current;
+    if (!resumed.checkPlaylistsOnResume || resumed.playlists.length === 0) return;
+
+    let cancelled = false;
+    checkPlaylistsForUpdates(resumed.playlists).then(updates => {
+      if (cancelled || !updates.some(update => update.diff && hasPlaylistChanges(update.diff))) return;
+      setPlaylistUpdates(updates);
+      setShowSyncDialog(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const applyPlaylistUpdates = useCallback((updates: PlaylistUpdate[]) => {
+    const before = sessionRef.current;
+    const after = updates.reduce(
+      (updated, update) => update.latest ? applyPlaylistUpdate(updated, update.latest) : updated,
+      before
+    );
+
+    // Only reload the player if the current video itself was removed
+    const previousVideo = getAllSessionVideos(before)[before.currentVideoIndex];
+    const nextVideo = getAllSessionVideos(after)[after.currentVideoIndex];
+    if (nextVideo && nextVideo.id !== previousVideo?.id) {
+      setStartPosition(getStartPosition(nextVideo, getVideoProgress(after, nextVideo.id)));
+    }
+
+    updateSession({ playlists: after.playlists, currentVideoIndex: after.currentVideoIndex });
+    setShowSyncDialog(false);
+  }, [updateSession]);
 
   // Update focus time periodically - only when window is focused AND video is playing
   useEffect(() => {
@@ -59,34 +185,305 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
 
     const interval = setInterval(() => {
       updateSession({
-        focusTime: currentSession.focusTime + 1,
-        totalStudyTime: currentSession.totalStudyTime + 1
+        focusTime: sessionRef.current.focusTime + 1,
+        totalStudyTime: sessionRef.current.totalStudyTime + 1
       });
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isWindowFocused, isVideoPlaying, currentSession.focusTime, currentSession.totalStudyTime, updateSession]);
+  }, [isWindowFocused, isVideoPlaying, updateSession]);
+
+  const goToVideo = useCallback((index: number, startAt?: number) => {
+    const video = allVideos[index];
+    if (!video) return;
+
+    setStartPosition(startAt ?? getStartPosition(video, getVideoProgress(sessionRef.current, video.id)));
+    updateSession({ currentVideoIndex: index });
+  }, [allVideos, updateSession]);
+
+  // Jump to a moment in any video, loading that video first if needed
+  const seekToVideoTime = useCallback((index: number, seconds: number) => {
+    if (index === sessionRef.current.currentVideoIndex) {
+      playerRef.current?.seekTo(seconds);
+    } else {
+      goToVideo(index, seconds);
+    }
+  }, [goToVideo]);
+
+  const handleTimeUpdate = useCallback((currentTime: number, duration: number) => {
+    const video = allVideos[sessionRef.current.currentVideoIndex];
+    if (!video) return;
+
+    const videoProgress = sessionRef.current.videoProgress ?? {};
+    updateSession({
+      videoProgress: {
+        ...videoProgress,
+        // A clip is finished once its end is reached
+        [video.id]: recordVideoProgress(videoProgress[video.id], currentTime, video.end ?? duration)
+      }
+    });
+  }, [allVideos, updateSession]);
 
   const handleVideoEnd = useCallback(() => {
-    if (currentSession.currentVideoIndex < allVideos.length - 1) {
+    const index = sessionRef.current.currentVideoIndex;
+    const video = allVideos[index];
+
+    if (video) {
+      const videoProgress = sessionRef.current.videoProgress ?? {};
       updateSession({
-        currentVideoIndex: currentSession.currentVideoIndex + 1
+        videoProgress: {
+          ...videoProgress,
+          [video.id]: markVideoCompleted(videoProgress[video.id], video.duration)
+        }
       });
     }
-  }, [currentSession.currentVideoIndex, allVideos.length, updateSession]);
+
+    const nextIndex = getNextQueueIndex(sessionRef.current, index, true);
+    if (nextIndex === index) {
+      // Repeating the same video: the player stays loaded, so start it over
+      playerRef.current?.seekTo(video?.start ?? 0);
+      playerRef.current?.play();
+    } else if (nextIndex >= 0) {
+      goToVideo(nextIndex);
+    }
+  }, [allVideos, goToVideo, updateSession]);
+
+  // Remember why a video won't play so the queue can show it, and move on if the user asked to
+  const handlePlaybackError = useCallback((code: number) => {
+    const index = sessionRef.current.currentVideoIndex;
+    const video = allVideos[index];
+    if (!video) return;
+
+    updateSession({
+      videoErrors: {
+        ...sessionRef.current.videoErrors,
+        [video.id]: { code, detectedAt: new Date().toISOString() }
+      }
+    });
+
+    if (sessionRef.current.autoSkipUnavailable && isPermanentPlayerError(code)) {
+      const nextIndex = getNextQueueIndex(sessionRef.current, index);
+      if (nextIndex >= 0 && nextIndex !== index) {
+        goToVideo(nextIndex);
+      }
+    }
+  }, [allVideos, goToVideo, updateSession]);
+
+  // Save a reshaped queue. The player only reloads if the current video itself changed.
+  const applyQueueEdit = useCallback((after: StudySession) => {
+    const before = sessionRef.current;
+    const nextVideo = getAllSessionVideos(after)[after.currentVideoIndex];
+    if (nextVideo && nextVideo.id !== getAllSessionVideos(before)[before.currentVideoIndex]?.id) {
+      setStartPosition(getStartPosition(nextVideo, getVideoProgress(after, nextVideo.id)));
+    }
+
+    const { videos, playlists, videoErrors, sourceUrls, currentVideoIndex } = after;
+    updateSession({ videos, playlists, videoErrors, sourceUrls, currentVideoIndex });
+  }, [updateSession]);
+
+  const handleRemoveVideos = useCallback((videoIds: Set<string>) => {
+    applyQueueEdit(removeVideos(sessionRef.current, videoIds));
+    setShowCleanupDialog(false);
+  }, [applyQueueEdit]);
+
+  const handleRemoveQueueVideo = useCallback((index: number) => {
+    applyQueueEdit(removeQueueVideo(sessionRef.current, index));
+  }, [applyQueueEdit]);
+
+  const handleMoveVideo = useCallback((from: number, to: number) => {
+    applyQueueEdit(moveQueueVideo(sessionRef.current, from, to));
+  }, [applyQueueEdit]);
+
+  const handlePlayNext = useCallback((index: number) => {
+    applyQueueEdit(playQueueVideoNext(sessionRef.current, index));
+  }, [applyQueueEdit]);
+
+  const handleVideosAdded = useCallback((videos: VideoInfo[], playlists: PlaylistInfo[], urls: string[]) => {
+    applyQueueEdit(addToQueue(sessionRef.current, videos, playlists, urls));
+
+    // Track video additions
+    videos.forEach(() => analytics.videoAdded('single'));
+    playlists.forEach(() => analytics.videoAdded('playlist'));
+  }, [applyQueueEdit]);
 
   const handleVideoChange = useCallback((index: number) => {
-    updateSession({ currentVideoIndex: index });
+    goToVideo(index);
+  }, [goToVideo]);
+
+  // Picking shuffle again draws a new order
+  const handlePlaybackModeChange = useCallback((playbackMode: PlaybackMode) => {
+    updateSession({
+      playbackMode,
+      shuffleOrder: playbackMode === 'shuffle' ? createShuffleOrder(sessionRef.current) : undefined
+    });
+  }, [updateSession]);
+
+  const handleAutoSkipChange = useCallback((autoSkipUnavailable: boolean) => {
+    updateSession({ autoSkipUnavailable });
   }, [updateSession]);
 
   const handleVideoPlay = useCallback(() => {
     setIsVideoPlaying(true);
-  }, []);
+
+    // A video that failed before (e.g. a temporary playback error) plays fine now
+    const video = allVideos[sessionRef.current.currentVideoIndex];
+    const videoErrors = sessionRef.current.videoErrors;
+    if (video && videoErrors?.[video.id]) {
+      updateSession({
+        videoErrors: Object.fromEntries(Object.entries(videoErrors).filter(([id]) => id !== video.id))
+      });
+    }
+  }, [allVideos, updateSession]);
 
   const handleVideoPause = useCallback(() => {
     setIsVideoPlaying(false);
   }, []);
 
+  const getPlayerTime = useCallback(() => {
+    return playerRef.current?.getCurrentTime() ?? 0;
+  }, []);
+
+  const handleAddNote = useCallback((timestamp: number, content: string) => {
+    const video = allVideos[sessionRef.current.currentVideoIndex];
+    if (!video) return;
+
+    const now = new Date().toISOString();
+    const note: VideoNote = {
+      id: generateNoteId(),
+      videoId: video.id,
+      timestamp,
+      content,
+      createdAt: now,
+      updatedAt: now
+    };
+    updateSession({ notes: [...(sessionRef.current.notes ?? []), note] });
+  }, [allVideos, updateSession]);
+
+  const handleUpdateNote = useCallback((noteId: string, content: string) => {
+    updateSession({
+      notes: (sessionRef.current.notes ?? []).map(note =>
+        note.id === noteId ? { ...note, content, updatedAt: new Date().toISOString() } : note
+      )
+    });
+  }, [updateSession]);
+
+  const handleDeleteNote = useCallback((noteId: string) => {
+    updateSession({
+      notes: (sessionRef.current.notes ?? []).filter(note => note.id !== noteId)
+    });
+  }, [updateSession]);
+
+  // Notes and transcripts point at a video, not a queue position
+  const seekToVideoMoment = useCallback((videoId: string, seconds: number) => {
+    const index = sessionRef.current.currentVideoIndex;
+    // Prefer the current occurrence if the same video appears more than once
+    const targetIndex = allVideos[index]?.id === videoId
+      ? index
+      : allVideos.findIndex(video => video.id === videoId);
+
+    if (targetIndex >= 0) {
+      seekToVideoTime(targetIndex, seconds);
+    }
+  }, [allVideos, seekToVideoTime]);
+
+  const handleSeekToNote = useCallback((note: VideoNote) => {
+    seekToVideoMoment(note.videoId, note.timestamp);
+  }, [seekToVideoMoment]);
+
+  const handleAddBookmark = useCallback((videoId: string, timestamp: number) => {
+    const now = new Date().toISOString();
+    const bookmark: VideoBookmark = {
+      id: generateBookmarkId(),
+      videoId,
+      timestamp,
+      createdAt: now,
+      updatedAt: now
+    };
+    updateSession({ bookmarks: [...(sessionRef.current.bookmarks ?? []), bookmark] });
+  }, [updateSession]);
+
+  const handleUpdateBookmark = useCallback((bookmarkId: string, updates: Pick<VideoBookmark, 'label' | 'category'>) => {
+    updateSession({
+      bookmarks: (sessionRef.current.bookmarks ?? []).map(bookmark =>
+        bookmark.id === bookmarkId ? { ...bookmark, ...updates, updatedAt: new Date().toISOString() } : bookmark
+      )
+    });
+  }, [updateSession]);
+
+  const handleDeleteBookmark = useCallback((bookmarkId: string) => {
+    updateSession({
+      bookmarks: (sessionRef.current.bookmarks ?? []).filter(bookmark => bookmark.id !== bookmarkId)
+    });
+  }, [updateSession]);
+
+  const handleSeekToBookmark = useCallback((bookmark: VideoBookmark) => {
+    seekToVideoMoment(bookmark.videoId, bookmark.timestamp);
+  }, [seekToVideoMoment]);
+
+  const currentVideoId = allVideos[currentSession.currentVideoIndex]?.id;
+  const currentVideoPreferences = currentVideoId ? currentSession.videoPreferences?.[currentVideoId] : undefined;
+  const playbackPreferences = useMemo(
+    () => resolvePlaybackPreferences(globalPreferences, currentSession.playbackPreferences, currentVideoPreferences),
+    [globalPreferences, currentSession.playbackPreferences, currentVideoPreferences]
+  );
+
+  const setVideoPreferences = useCallback((videoId: string, preferences: PlaybackPreferences) => {
+    const videoPreferences = { ...sessionRef.current.videoPreferences };
+    if (Object.keys(preferences).length > 0) {
+      videoPreferences[videoId] = preferences;
+    } else {
+      delete videoPreferences[videoId];
+    }
+    updateSession({ videoPreferences });
+  }, [updateSession]);
+
+  // Speed, quality, captions or mute changed in the player
+  const handlePreferenceChange = useCallback((change: PlaybackPreferences) => {
+    const current = sessionRef.current;
+    const videoId = getAllSessionVideos(current)[current.currentVideoIndex]?.id;
+    if (!videoId) return;
+
+    for (const key of Object.keys(change) as PlaybackPreferenceKey[]) {
+      const videoPreferences = sessionRef.current.videoPreferences?.[videoId];
+      if (getPreferenceScopeForChange(key, videoPreferences) === 'video') {
+        setVideoPreferences(videoId, setPlaybackPreference(videoPreferences, key, change[key]));
+      } else {
+        updateSession({
+          playbackPreferences: setPlaybackPreference(sessionRef.current.playbackPreferences, key, change[key])
+        });
+      }
+    }
+  }, [setVideoPreferences, updateSession]);
+
+  const handlePreferencesDialogChange = useCallback((scope: PlaybackPreferenceScope, preferences: PlaybackPreferences) => {
+    if (scope === 'global') {
+      saveGlobalPlaybackPreferences(preferences);
+      setGlobalPreferences(preferences);
+    } else if (scope === 'session') {
+      updateSession({ playbackPreferences: preferences });
+    } else if (currentVideoId) {
+      setVideoPreferences(currentVideoId, preferences);
+    }
+  }, [currentVideoId, setVideoPreferences, updateSession]);
+
+  const handleSaveSegment = useCallback((videoId: string, name: string, start: number, end: number) => {
+    const segment: VideoSegment = {
+      id: generateSegmentId(),
+      videoId,
+      name,
+      start,
+      end,
+      createdAt: new Date().toISOString()
+    };
+    updateSession({ segments: [...(sessionRef.current.segments ?? []), segment] });
+  }, [updateSession]);
+
+  const handleDeleteSegment = useCallback((segmentId: string) => {
+    updateSession({
+      segments: (sessionRef.current.segments ?? []).filter(segment => segment.id !== segmentId)
+    });
+  }, [updateSession]);
+
   const handlePomodoroSettingsChange = useCallback((pomodoroSettings: PomodoroSettings) => {
     updateSession({ pomodoroSettings });
   }, [updateSession]);
@@ -129,117 +526,45 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
   }, [isResizing]);
 
   // Update video titles when player is ready
+  // The player picked up a title the saved video didn't have; `videoIndex` is its queue position
   const handleVideoTitleUpdate = useCallback((title: string, videoIndex: number) => {
-    const updatedVideos = [...allVideos];
-    if (updatedVideos[videoIndex]) {
-      updatedVideos[videoIndex] = { ...updatedVideos[videoIndex], title };
-      
-      // Update session with new title
-      const videoIsFromMainList = videoIndex < currentSession.videos.length;
-      if (videoIsFromMainList) {
-        const updatedSessionVideos = [...currentSession.videos];
-        updatedSessionVideos[videoIndex] = updatedVideos[videoIndex];
-        updateSession({ videos: updatedSessionVideos });
-      } else {
-        // Video is from a playlist
-        const playlistVideoIndex = videoIndex - currentSession.videos.length;
-        let currentPlaylistIndex = 0;
-        let currentVideoCount = 0;
-        
-        for (const playlist of currentSession.playlists) {
-          if (currentVideoCount + playlist.videos.length > playlistVideoIndex) {
-            const videoIndexInPlaylist = playlistVideoIndex - currentVideoCount;
-            const updatedPlaylists = [...currentSession.playlists];
-            updatedPlaylists[currentPlaylistIndex].videos[videoIndexInPlaylist] = updatedVideos[videoIndex];
-            updateSession({ playlists: updatedPlaylists });
-            break;
-          }
-          currentVideoCount += playlist.videos.length;
-          currentPlaylistIndex++;
-        }
-      }
-    }
-  }, [allVideos, currentSession, updateSession]);
+    const session = sessionRef.current;
+    if (!getAllSessionVideos(session)[videoIndex]) return;
+
+    // Count positions in the same order as getAllSessionVideos
+    let position = 0;
+    const withTitle = (video: VideoInfo) => position++ === videoIndex ? { ...video, title } : video;
+    updateSession({
+      videos: session.videos.map(withTitle),
+      playlists: session.playlists.map(playlist => ({ ...playlist, videos: playlist.videos.map(withTitle) }))
+    });
+  }, [updateSession]);
 
   const shareSession = async () => {
     if (isSharing) return;
-    
+
+    // Already shared: reopen the controls for the existing link
+    if (currentSession.share) {
+      setShareJustCopied(false);
+      setShowShareModal(true);
+      return;
+    }
+
     setIsSharing(true);
     
     try {
-      // Use source URL API for ultra-efficient sharing if available
-      if (currentSession.sourceUrls && currentSession.sourceUrls.length > 0) {
-        const response = await fetch('/api/sessions/source-urls', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            name: currentSession.name,
-            sourceUrls: currentSession.sourceUrls,
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Failed to create shareable session: ${response.status}`);
-        }
-
-        const result = await response.json();
-        const { shareUrl } = result;
-        setShareLink(shareUrl);
-        
-        // Auto-copy to clipboard immediately
-        await navigator.clipboard.writeText(shareUrl);
-        setCopySuccess(true);
-        
-        // No warnings needed for source URL approach
-        setSessionWarning(null);
-        setShowShareModal(true);
-        
-        // Reset copy success after 3 seconds but keep modal open
-        setTimeout(() => {
-          setCopySuccess(false);
-        }, 3000);
-      } else {
-        // Fallback to metadata API for sessions without source URLs
-        const response = await fetch('/api/sessions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            name: currentSession.name,
-            videos: currentSession.videos,
-            playlists: currentSession.playlists,
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Failed to create shareable session: ${response.status}`);
-        }
+      const created = await createShare(createSharePayload(
+        currentSession.name,
+        currentSession.videos,
+        currentSession.playlists,
+        currentSession.sourceUrls
+      ));
+      updateSession({ share: toSessionShare(created) });
 
-        const result = await response.json();
-        
-        const { shareUrl, warning } = result;
-        setShareLink(shareUrl);
-        
-        // Keep track of any warnings from the server
-        const hasWarning = Boolean(warning);
-        
-        // Auto-copy to clipboard immediately
-        await navigator.clipboard.writeText(shareUrl);
-        setCopySuccess(true);
-        
-        // Store warning in state for display
-        setSessionWarning(hasWarning ? warning : null);
-        setShowShareModal(true);
-        
-        // Reset copy success after 3 seconds but keep modal open
-        setTimeout(() => {
-          setCopySuccess(false);
-        }, 3000);
-      }
-      
+      // Auto-copy to clipboard immediately
+      await navigator.clipboard.writeText(created.shareUrl).catch(() => undefined);
+      setShareJustCopied(true);
+      setShowShareModal(true);
     } catch (error) {
       alert(`Failed to share session: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
@@ -247,18 +572,22 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
     }
   };
 
-  const copyShareLink = async () => {
-    if (!shareLink) return;
-    
-    try {
-      await navigator.clipboard.writeText(shareLink);
-      setCopySuccess(true);
-      setTimeout(() => setCopySuccess(false), 2000);
-    } catch {
-      // Silent fail for clipboard operations
+  const handleShareChange = (share: SessionShare | undefined) => {
+    updateSession({ share });
+    if (!share) {
+      setShowShareModal(false);
     }
   };
 
+  const unplayableCount = getUnplayableVideos(currentSession).length;
+
+  const previousIndex = getPreviousQueueIndex(currentSession, currentSession.currentVideoIndex);
+  const nextIndex = getNextQueueIndex(currentSession, currentSession.currentVideoIndex);
+
+  const completedVideoCount = allVideos.filter(
+    video => getVideoProgress(currentSession, video.id)?.status === 'completed'
+  ).length;
+
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const mins = Math.floor((seconds % 3600) / 60);
@@ -327,7 +656,8 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
             {/* Center Section - Progress Dots */}
             <div className="flex items-center gap-1">
               {Array.from({ length: 10 }, (_, i) => {
-                const progressPercent = ((currentSession.currentVideoIndex + 1) / allVideos.length) * 100;
+                // Follows the playback mode, e.g. how far into the shuffle this video is
+                const progressPercent = getPlaybackProgress(currentSession, currentSession.currentVideoIndex) * 100;
                 const dotThreshold = (i + 1) * 10;
                 
                 let dotColor = 'bg-gray-700'; // Not reached
@@ -351,9 +681,11 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
             <div className="flex items-center gap-3">
               {/* Video Controls */}
               <div className="hidden md:flex items-center gap-1 bg-gray-800/50 rounded-lg p-1">
+                <PlaybackModeMenu mode={getPlaybackMode(currentSession)} onChange={handlePlaybackModeChange} />
+
                 <button
-                  onClick={() => handleVideoChange(Math.max(0, currentSession.currentVideoIndex - 1))}
-                  disabled={currentSession.currentVideoIndex === 0}
+                  onClick={() => handleVideoChange(previousIndex)}
+                  disabled={previousIndex < 0}
                   className="p-1.5 text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   title="Previous Video"
                 >
@@ -361,15 +693,38 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
                 </button>
                 
                 <button
-                  onClick={() => handleVideoChange(Math.min(allVideos.length - 1, currentSession.currentVideoIndex + 1))}
-                  disabled={currentSession.currentVideoIndex === allVideos.length - 1}
+                  onClick={() => handleVideoChange(nextIndex)}
+                  disabled={nextIndex < 0}
                   className="p-1.5 text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   title="Next Video"
                 >
                   <SkipForward size={14} />
                 </button>
+
+                <button
+                  onClick={() => handleAutoSkipChange(!currentSession.autoSkipUnavailable)}
+                  className={`p-1.5 transition-colors ${
+                    currentSession.autoSkipUnavailable ? 'text-blue-400 hover:text-blue-300' : 'text-gray-400 hover:text-white'
+                  }`}
+                  title={`Skip unavailable videos: ${currentSession.autoSkipUnavailable ? 'On' : 'Off'}`}
+                  aria-pressed={currentSession.autoSkipUnavailable ?? false}
+                >
+                  <Ban size={14} />
+                </button>
               </div>
 
+              {/* Playback Preferences */}
+              <button
+                onClick={() => setShowPreferencesDialog(true)}
+                className="p-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                title="Playback preferences"
+              >
+                <SlidersHorizontal size={16} />
+              </button>
+
+              {/* Export Menu */}
+              <ExportMenu session={currentSession} />
+
               {/* Share Button */}
               <button
                 onClick={shareSession}
@@ -405,13 +760,26 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
           } : undefined}
         >
           <VideoPlayer
+            ref={playerRef}
             videos={allVideos}
             currentIndex={currentSession.currentVideoIndex}
+            previousIndex={previousIndex}
+            nextIndex={nextIndex}
+            startTime={startPosition}
             onVideoEnd={handleVideoEnd}
             onVideoChange={handleVideoChange}
+            onTimeUpdate={handleTimeUpdate}
             onTitleUpdate={handleVideoTitleUpdate}
             onPlay={handleVideoPlay}
             onPause={handleVideoPause}
+            onPlaybackError={handlePlaybackError}
+            segments={currentSession.segments}
+            onSaveSegment={handleSaveSegment}
+            onDeleteSegment={handleDeleteSegment}
+            bookmarks={currentSession.bookmarks}
+            onAddBookmark={handleAddBookmark}
+            preferences={playbackPreferences}
+            onPreferenceChange={handlePreferenceChange}
             className="w-full h-full min-h-[300px] lg:min-h-[400px]"
           />
         </div>
@@ -456,39 +824,90 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
                   <h3 className="font-medium text-gray-200 mb-3 flex items-center gap-2">
                     <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                     Video Queue ({allVideos.length})
-                  </h3>
-                  
-                  <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {allVideos.map((video, index) => (
+                    <div className="ml-auto flex items-center gap-1">
+                      {unplayableCount > 0 && (
+                        <button
+                          onClick={() => setShowCleanupDialog(true)}
+                          className="flex items-center gap-1 px-1.5 py-0.5 text-xs text-red-400 hover:text-red-300 bg-red-500/10 rounded transition-colors"
+                          title="Clean up session"
+                        >
+                          <Trash2 size={12} />
+                          {unplayableCount} unavailable
+                        </button>
+                      )}
                       <button
-                        key={`${video.id}-${index}`}
-                        onClick={() => handleVideoChange(index)}
-                        className={`w-full text-left p-3 rounded-lg text-sm transition-colors ${
-                          index === currentSession.currentVideoIndex
-                            ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
-                            : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700/50'
-                        }`}
+                        onClick={() => setShowAddVideos(!showAddVideos)}
+                        className={`p-1 transition-colors ${showAddVideos ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`}
+                        title="Add videos"
                       >
-                        <div className="flex items-start gap-3">
-                          <span className="text-xs bg-gray-700 px-2 py-1 rounded flex-shrink-0">
-                            #{index + 1}
-                          </span>
-                          <div className="min-w-0 flex-1">
-                            <div className="font-medium text-sm truncate">
-                              {video.title || 'Loading title...'}
-                            </div>
-                            {video.duration && (
-                              <div className="text-xs text-gray-500 mt-1">
-                                {Math.floor(video.duration / 60)}:{(video.duration % 60).toString().padStart(2, '0')}
-                              </div>
-                            )}
-                          </div>
-                        </div>
+                        <Plus size={14} />
                       </button>
-                    ))}
-                  </div>
+                      {currentSession.playlists.length > 0 && (
+                        <button
+                          onClick={refreshPlaylists}
+                          className="p-1 text-gray-400 hover:text-white transition-colors"
+                          title="Refresh playlists"
+                        >
+                          <RefreshCw size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </h3>
+                  
+                  {playlistStreaming.progress && (
+                    <PlaylistLoadingIndicator
+                      progress={playlistStreaming.progress}
+                      error={playlistStreaming.error}
+                      onCancel={playlistStreaming.cancel}
+                      onRetry={playlistStreaming.retry}
+                    />
+                  )}
+
+                  {showAddVideos && (
+                    <VideoUrlInput onVideosAdded={handleVideosAdded} className="mb-3" />
+                  )}
+
+                  <VideoQueueList
+                    session={currentSession}
+                    videos={allVideos}
+                    currentIndex={currentSession.currentVideoIndex}
+                    nextIndex={nextIndex}
+                    onSelect={handleVideoChange}
+                    onMove={handleMoveVideo}
+                    onPlayNext={handlePlayNext}
+                    onRemove={handleRemoveQueueVideo}
+                  />
                 </div>
 
+                {/* Notes */}
+                <NotesPanel
+                  notes={currentSession.notes ?? []}
+                  videos={allVideos}
+                  currentVideoIndex={currentSession.currentVideoIndex}
+                  getCurrentTime={getPlayerTime}
+                  onAddNote={handleAddNote}
+                  onUpdateNote={handleUpdateNote}
+                  onDeleteNote={handleDeleteNote}
+                  onSeekToNote={handleSeekToNote}
+                />
+
+                {/* Bookmarks */}
+                <BookmarksPanel
+                  bookmarks={currentSession.bookmarks ?? []}
+                  videos={allVideos}
+                  onUpdateBookmark={handleUpdateBookmark}
+                  onDeleteBookmark={handleDeleteBookmark}
+                  onSeekToBookmark={handleSeekToBookmark}
+                />
+
+                {/* Transcript */}
+                <TranscriptPanel
+                  videos={allVideos}
+                  currentVideoIndex={currentSession.currentVideoIndex}
+                  getCurrentTime={getPlayerTime}
+                  onSeek={seekToVideoMoment}
+                />
+
                 {/* Session Stats */}
                 <div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-4">
                   <h3 className="font-medium text-gray-200 mb-3">Session Stats</h3>
@@ -504,7 +923,7 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-400">Videos Watched:</span>
-                      <span className="text-white">{currentSession.currentVideoIndex + 1} / {allVideos.length}</span>
+                      <span className="text-white">{completedVideoCount} / {allVideos.length}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-400">Pomodoros:</span>
@@ -536,147 +955,137 @@ export default function SessionView({ session, onUpdateSession, onExit }: Sessio
                 <h3 className="font-medium text-gray-200 mb-3 flex items-center gap-2">
                   <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                   Queue ({allVideos.length})
-                </h3>
-                
-                <div className="space-y-2 max-h-32 overflow-y-auto">
-                  {allVideos.map((video, index) => (
+                  <div className="ml-auto flex items-center gap-1">
+                    {unplayableCount > 0 && (
+                      <button
+                        onClick={() => setShowCleanupDialog(true)}
+                        className="flex items-center gap-1 px-1.5 py-0.5 text-xs text-red-400 hover:text-red-300 bg-red-500/10 rounded transition-colors"
+                        title="Clean up session"
+                      >
+                        <Trash2 size={12} />
+                        {unplayableCount} unavailable
+                      </button>
+                    )}
                     <button
-                      key={`${video.id}-${index}`}
-                      onClick={() => handleVideoChange(index)}
-                      className={`w-full text-left p-2 rounded text-sm transition-colors ${
-                        index === currentSession.currentVideoIndex
-                          ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
-                          : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700/50'
-                      }`}
+                      onClick={() => setShowAddVideos(!showAddVideos)}
+                      className={`p-1 transition-colors ${showAddVideos ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`}
+                      title="Add videos"
                     >
-                      <div className="flex items-center gap-2">
-                        <span className="text-xs">#{index + 1}</span>
-                        <span className="truncate text-xs">
-                          {video.title || 'Loading...'}
-                        </span>
-                      </div>
+                      <Plus size={14} />
                     </button>
-                  ))}
-                </div>
+                    {currentSession.playlists.length > 0 && (
+                      <button
+                        onClick={refreshPlaylists}
+                        className="p-1 text-gray-400 hover:text-white transition-colors"
+                        title="Refresh playlists"
+                      >
+                        <RefreshCw size={14} />
+                      </button>
+                    )}
+                  </div>
+                </h3>
+                
+                {playlistStreaming.progress && (
+                  <PlaylistLoadingIndicator
+                    progress={playlistStreaming.progress}
+                    error={playlistStreaming.error}
+                    onCancel={playlistStreaming.cancel}
+                    onRetry={playlistStreaming.retry}
+                  />
+                )}
+
+                {showAddVideos && (
+                  <VideoUrlInput onVideosAdded={handleVideosAdded} className="mb-3" />
+                )}
+
+                <VideoQueueList
+                  session={currentSession}
+                  videos={allVideos}
+                  currentIndex={currentSession.currentVideoIndex}
+                  nextIndex={nextIndex}
+                  onSelect={handleVideoChange}
+                  onMove={handleMoveVideo}
+                  onPlayNext={handlePlayNext}
+                  onRemove={handleRemoveQueueVideo}
+                  compact
+                />
               </div>
+
+              {/* Notes */}
+              <NotesPanel
+                notes={currentSession.notes ?? []}
+                videos={allVideos}
+                currentVideoIndex={currentSession.currentVideoIndex}
+                getCurrentTime={getPlayerTime}
+                onAddNote={handleAddNote}
+                onUpdateNote={handleUpdateNote}
+                onDeleteNote={handleDeleteNote}
+                onSeekToNote={handleSeekToNote}
+                className="flex-shrink-0 w-80"
+              />
+
+              {/* Bookmarks */}
+              <BookmarksPanel
+                bookmarks={currentSession.bookmarks ?? []}
+                videos={allVideos}
+                onUpdateBookmark={handleUpdateBookmark}
+                onDeleteBookmark={handleDeleteBookmark}
+                onSeekToBookmark={handleSeekToBookmark}
+                className="flex-shrink-0 w-80"
+              />
+
+              {/* Transcript */}
+              <TranscriptPanel
+                videos={allVideos}
+                currentVideoIndex={currentSession.currentVideoIndex}
+                getCurrentTime={getPlayerTime}
+                onSeek={seekToVideoMoment}
+                className="flex-shrink-0 w-80"
+              />
             </div>
           </div>
         )}
       </div>
 
       {/* Enhanced Share Modal */}
-      {showShareModal && shareLink && (
-        <div 
-          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
-          onClick={(e) => {
-            if (e.target === e.currentTarget) {
-              setShowShareModal(false);
-            }
-          }}
-        >
-          <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl max-w-md w-full">
-            {/* Modal Header */}
-            <div className="flex items-center justify-between p-6 border-b border-gray-700">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg flex items-center justify-center">
-                  <Share2 className="text-white" size={20} />
-                </div>
-                <div>
-                  <h3 className="text-lg font-semibold text-white">Session Shared!</h3>
-                  <p className="text-sm text-gray-400">Your session is ready to share</p>
-                </div>
-              </div>
-              <button
-                onClick={() => setShowShareModal(false)}
-                className="text-gray-400 hover:text-white transition-colors"
-              >
-                <X size={20} />
-              </button>
-            </div>
-
-            {/* Modal Content */}
-            <div className="p-6 space-y-4">
-              {/* Success Message */}
-              <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
-                <div className="flex items-center gap-3">
-                  <Check className="text-green-400" size={20} />
-                  <div>
-                    <p className="text-green-400 font-medium">Link copied to clipboard!</p>
-                    <p className="text-green-300/80 text-sm">Share this link with others to let them access your video collection</p>
-                  </div>
-                </div>
-              </div>
-
-              {/* Warning Message (if applicable) */}
-              {sessionWarning && (
-                <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
-                  <div className="flex items-start gap-3">
-                    <div className="mt-0.5 text-yellow-400">⚠️</div>
-                    <div>
-                      <p className="text-yellow-400 font-medium">Sharing Notice</p>
-                      <p className="text-yellow-300/80 text-sm">{sessionWarning}</p>
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Session Info */}
-              <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
-                <h4 className="text-white font-medium mb-2">{currentSession.name}</h4>
-                <div className="flex items-center gap-4 text-sm text-gray-400">
-                  <span>{currentSession.videos.length} videos</span>
-                  <span>{currentSession.playlists.length} playlists</span>
-                  <span>{allVideos.length} total videos</span>
-                </div>
-              </div>
+      {showShareModal && currentSession.share && (
+        <ShareSessionDialog
+          session={currentSession}
+          share={currentSession.share}
+          justCopied={shareJustCopied}
+          onShareChange={handleShareChange}
+          onClose={() => setShowShareModal(false)}
+        />
+      )}
 
-              {/* Share Link */}
-              <div className="space-y-3">
-                <label className="text-sm font-medium text-gray-300">Share Link</label>
-                <div className="flex gap-2">
-                  <div className="flex-1 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-300 font-mono break-all">
-                    {shareLink}
-                  </div>
-                  <button
-                    onClick={copyShareLink}
-                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${
-                      copySuccess 
-                        ? 'bg-green-600 text-white' 
-                        : 'bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white'
-                    }`}
-                  >
-                    {copySuccess ? <Check size={16} /> : <Copy size={16} />}
-                    {copySuccess ? 'Copied!' : 'Copy'}
-                  </button>
-                </div>
-              </div>
+      {showPreferencesDialog && (
+        <PlaybackPreferencesDialog
+          globalPreferences={globalPreferences}
+          sessionPreferences={currentSession.playbackPreferences}
+          videoPreferences={currentVideoPreferences}
+          video={allVideos[currentSession.currentVideoIndex]}
+          onChange={handlePreferencesDialogChange}
+          onClose={() => setShowPreferencesDialog(false)}
+        />
+      )}
 
-              {/* Additional Actions */}
-              <div className="flex gap-3 pt-2">
-                <button
-                  onClick={() => window.open(shareLink, '_blank')}
-                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
-                >
-                  <ExternalLink size={16} />
-                  Preview Link
-                </button>
-                <button
-                  onClick={() => setShowShareModal(false)}
-                  className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
-                >
-                  Close
-                </button>
-              </div>
+      {showCleanupDialog && (
+        <SessionCleanupDialog
+          session={currentSession}
+          onRemove={handleRemoveVideos}
+          onAutoSkipChange={handleAutoSkipChange}
+          onClose={() => setShowCleanupDialog(false)}
+        />
+      )}
 
-              {/* Info Note */}
-              <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-3">
-                <p className="text-xs text-blue-300">
-                  <strong>Note:</strong> Others can view your video collection, but their progress will be tracked separately. Sessions expire after 30 days.
-                </p>
-              </div>
-            </div>
-          </div>
-        </div>
+      {showSyncDialog && (
+        <PlaylistSyncDialog
+          updates={playlistUpdates}
+          checkOnResume={currentSession.checkPlaylistsOnResume ?? false}
+          onCheckOnResumeChange={(checkPlaylistsOnResume) => updateSession({ checkPlaylistsOnResume })}
+          onApply={applyPlaylistUpdates}
+          onClose={() => setShowSyncDialog(false)}
+        />
       )}
     </div>
   );
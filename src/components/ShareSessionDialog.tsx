@@ -0,0 +1,243 @@
+'use client';
+
+import { getAllSessionVideos, SessionShare, StudySession } from '@/lib/session';
+import { revokeShare, ShareRequestError, updateShare } from '@/lib/share-client';
+import { createSharePayload, ShareExpiry } from '@/lib/share-format';
+import { AlertCircle, Check, Copy, ExternalLink, RefreshCw, Share2, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface ShareSessionDialogProps {
+  session: StudySession;
+  share: SessionShare;
+  justCopied: boolean;
+  onShareChange: (share: SessionShare | undefined) => void;
+  onClose: () => void;
+}
+
+const EXPIRY_LABELS: Record<ShareExpiry, string> = {
+  '1d': '1 day',
+  '7d': '7 days',
+  '30d': '30 days',
+  '90d': '90 days',
+  never: 'Never'
+};
+
+export default function ShareSessionDialog({ session, share, justCopied, onShareChange, onClose }: ShareSessionDialogProps) {
+  const [copySuccess, setCopySuccess] = useState(justCopied);
+  const [pendingAction, setPendingAction] = useState<'expiry' | 'update' | 'revoke' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [updated, setUpdated] = useState(false);
+
+  const totalVideos = getAllSessionVideos(session).length;
+
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopySuccess(true);
+      setTimeout(() => setCopySuccess(false), 2000);
+    } catch {
+      // Silent fail for clipboard operations
+    }
+  };
+
+  // Runs an owner action; a share the server no longer has is dropped from the session
+  const runOwnerAction = async (action: 'expiry' | 'update' | 'revoke', request: () => Promise<void>) => {
+    if (pendingAction) return;
+
+    setPendingAction(action);
+    setError(null);
+    try {
+      await request();
+    } catch (err) {
+      if (err instanceof ShareRequestError && (err.status === 404 || err.status === 410)) {
+        alert('This share link no longer exists. Share the session again to create a new one.');
+        onShareChange(undefined);
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleExpiryChange = (expiry: ShareExpiry) => runOwnerAction('expiry', async () => {
+    const result = await updateShare(share.id, share.ownerToken, { expiresIn: expiry });
+    onShareChange({ ...share, expiry, expiresAt: result.expiresAt, updatedAt: new Date().toISOString() });
+  });
+
+  const handleUpdate = () => runOwnerAction('update', async () => {
+    const payload = createSharePayload(session.name, session.videos, session.playlists, session.sourceUrls);
+    const result = await updateShare(share.id, share.ownerToken, { payload });
+    onShareChange({ ...share, expiresAt: result.expiresAt, updatedAt: new Date().toISOString() });
+    setUpdated(true);
+    setTimeout(() => setUpdated(false), 2000);
+  });
+
+  const handleRevoke = () => {
+    if (!confirm('Revoke this link? Anyone who opens it will see that it was revoked. This cannot be undone.')) {
+      return;
+    }
+
+    runOwnerAction('revoke', async () => {
+      await revokeShare(share.id, share.ownerToken);
+      onShareChange(undefined);
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg flex items-center justify-center">
+              <Share2 className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-white">{justCopied ? 'Session Shared!' : 'Shared Link'}</h3>
+              <p className="text-sm text-gray-400">
+                {justCopied ? 'Your session is ready to share' : 'Manage who can open this session'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-6 space-y-4">
+          {/* Success Message */}
+          {justCopied && (
+            <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
+              <div className="flex items-center gap-3">
+                <Check className="text-green-400" size={20} />
+                <div>
+                  <p className="text-green-400 font-medium">Link copied to clipboard!</p>
+                  <p className="text-green-300/80 text-sm">Share this link with others to let them access your video collection</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Session Info */}
+          <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+            <h4 className="text-white font-medium mb-2">{session.name}</h4>
+            <div className="flex items-center gap-4 text-sm text-gray-400">
+              <span>{session.videos.length} videos</span>
+              <span>{session.playlists.length} playlists</span>
+              <span>{totalVideos} total videos</span>
+            </div>
+          </div>
+
+          {/* Share Link */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-gray-300">Share Link</label>
+            <div className="flex gap-2">
+              <div className="flex-1 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-300 font-mono break-all">
+                {share.url}
+              </div>
+              <button
+                onClick={copyShareLink}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${
+                  copySuccess
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white'
+                }`}
+              >
+                {copySuccess ? <Check size={16} /> : <Copy size={16} />}
+                {copySuccess ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+          </div>
+
+          {/* Owner Controls */}
+          <div className="space-y-3 bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+            <div className="flex items-center justify-between gap-3">
+              <label htmlFor="share-expiry" className="text-sm text-gray-300">Link expires after</label>
+              <select
+                id="share-expiry"
+                value={share.expiry ?? ''}
+                onChange={(e) => handleExpiryChange(e.target.value as ShareExpiry)}
+                disabled={pendingAction !== null}
+                className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white disabled:opacity-50"
+              >
+                {!share.expiry && <option value="" disabled>Default</option>}
+                {(Object.keys(EXPIRY_LABELS) as ShareExpiry[]).map(expiry => (
+                  <option key={expiry} value={expiry}>{EXPIRY_LABELS[expiry]}</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-gray-500">
+              {share.expiresAt
+                ? `Expires on ${new Date(share.expiresAt).toLocaleString()}`
+                : 'This link never expires'}
+            </p>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleUpdate}
+                disabled={pendingAction !== null}
+                title="Publish the current name and video list to this link"
+                className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 hover:text-white px-3 py-2 rounded-lg text-sm transition-colors flex items-center justify-center gap-2"
+              >
+                {updated ? <Check size={14} /> : <RefreshCw size={14} className={pendingAction === 'update' ? 'animate-spin' : ''} />}
+                {updated ? 'Updated!' : 'Update shared copy'}
+              </button>
+              <button
+                onClick={handleRevoke}
+                disabled={pendingAction !== null}
+                className="flex-1 bg-red-500/10 hover:bg-red-500/20 disabled:opacity-50 text-red-400 border border-red-500/20 px-3 py-2 rounded-lg text-sm transition-colors flex items-center justify-center gap-2"
+              >
+                <Trash2 size={14} />
+                {pendingAction === 'revoke' ? 'Revoking...' : 'Revoke link'}
+              </button>
+            </div>
+
+            {error && (
+              <div className="flex items-start gap-2 text-sm text-red-400">
+                <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+          </div>
+
+          {/* Additional Actions */}
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={() => window.open(share.url, '_blank')}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              <ExternalLink size={16} />
+              Preview Link
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Close
+            </button>
+          </div>
+
+          {/* Info Note */}
+          <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-3">
+            <p className="text-xs text-blue-300">
+              <strong>Note:</strong> Others can view your video collection, but their progress will be tracked separately.
+              Changes to this session are only visible to others after you update the shared copy.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
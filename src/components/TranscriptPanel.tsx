@@ -0,0 +1,364 @@
+'use client';
+
+import { getCueIndex, searchTranscripts, Transcript } from '@/lib/transcript-format';
+import { deleteTranscript, fetchYouTubeTranscript, getSavedTranscripts, saveUploadedTranscript, TRANSCRIPT_FILE_EXTENSIONS } from '@/lib/transcripts';
+import { VideoInfo } from '@/lib/youtube';
+import { Crosshair, FileText, Loader2, Search, Trash2, Upload, X } from 'lucide-react';
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+interface TranscriptPanelProps {
+  videos: VideoInfo[];
+  currentVideoIndex: number;
+  getCurrentTime: () => number;
+  onSeek: (videoId: string, seconds: number) => void;
+  className?: string;
+}
+
+type LoadState = { status: 'loading' } | { status: 'missing' } | { status: 'error'; message: string };
+
+const MAX_SEARCH_RESULTS = 200;
+
+function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function Highlighted({ text, words }: { text: string; words: string[] }) {
+  if (words.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) => (
+        <Fragment key={index}>
+          {index % 2 === 1 ? <mark className="bg-yellow-400/30 text-yellow-200 rounded-sm">{part}</mark> : part}
+        </Fragment>
+      ))}
+    </>
+  );
+}
+
+export default function TranscriptPanel({ videos, currentVideoIndex, getCurrentTime, onSeek, className = '' }: TranscriptPanelProps) {
+  const [transcripts, setTranscripts] = useState<Record<string, Transcript>>({});
+  const [loadStates, setLoadStates] = useState<Record<string, LoadState>>({});
+  const [savedLoaded, setSavedLoaded] = useState(false);
+  const [query, setQuery] = useState('');
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isFollowing, setIsFollowing] = useState(true);
+  const [isLoadingAll, setIsLoadingAll] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeCueRef = useRef<HTMLButtonElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const unmountedRef = useRef(false);
+
+  const currentVideo = videos[currentVideoIndex];
+  const transcript = currentVideo ? transcripts[currentVideo.id] : undefined;
+  const loadState = currentVideo ? loadStates[currentVideo.id] : undefined;
+  const videoIdsKey = useMemo(() => Array.from(new Set(videos.map(video => video.id))).join(','), [videos]);
+
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+    };
+  }, []);
+
+  // Everything already saved for this session's videos, so search covers them right away
+  useEffect(() => {
+    let cancelled = false;
+    getSavedTranscripts(videoIdsKey ? videoIdsKey.split(',') : [])
+      .then(saved => {
+        if (cancelled) return;
+        setTranscripts(prev => ({ ...Object.fromEntries(saved.map(t => [t.videoId, t])), ...prev }));
+      })
+      .catch(error => console.error('Error loading saved transcripts:', error))
+      .finally(() => {
+        if (!cancelled) setSavedLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoIdsKey]);
+
+  const loadFromYouTube = useCallback(async (videoId: string) => {
+    setLoadStates(prev => ({ ...prev, [videoId]: { status: 'loading' } }));
+    try {
+      const loaded = await fetchYouTubeTranscript(videoId);
+      if (unmountedRef.current) return;
+
+      if (loaded) {
+        setTranscripts(prev => ({ ...prev, [videoId]: loaded }));
+        setLoadStates(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== videoId)));
+      } else {
+        setLoadStates(prev => ({ ...prev, [videoId]: { status: 'missing' } }));
+      }
+    } catch (error) {
+      if (unmountedRef.current) return;
+      setLoadStates(prev => ({
+        ...prev,
+        [videoId]: { status: 'error', message: error instanceof Error ? error.message : 'Failed to load captions' }
+      }));
+    }
+  }, []);
+
+  // Fetch captions for the video being watched the first time it comes up
+  const currentVideoId = currentVideo?.id;
+  const needsFetch = savedLoaded && currentVideoId !== undefined && !transcript && !loadState;
+  useEffect(() => {
+    if (needsFetch && currentVideoId) {
+      loadFromYouTube(currentVideoId);
+    }
+  }, [needsFetch, currentVideoId, loadFromYouTube]);
+
+  // Track the playhead while the transcript is on screen
+  useEffect(() => {
+    if (!transcript || query) return;
+
+    setCurrentTime(getCurrentTime());
+    const interval = setInterval(() => setCurrentTime(getCurrentTime()), 1000);
+    return () => clearInterval(interval);
+  }, [transcript, query, getCurrentTime]);
+
+  const activeCueIndex = transcript ? getCueIndex(transcript.cues, currentTime) : -1;
+
+  // Keep the spoken line a third of the way down the list, without scrolling the page
+  useEffect(() => {
+    const list = listRef.current;
+    const active = activeCueRef.current;
+    if (!isFollowing || !list || !active) return;
+
+    list.scrollTo({ top: active.offsetTop - list.clientHeight / 3, behavior: 'smooth' });
+  }, [activeCueIndex, isFollowing]);
+
+  const searchWords = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const videoNumbers = useMemo(() => {
+    const numbers = new Map<string, number>();
+    videos.forEach((video, index) => {
+      if (!numbers.has(video.id)) numbers.set(video.id, index + 1);
+    });
+    return numbers;
+  }, [videos]);
+  // In queue order, and only for videos still in the session
+  const matches = useMemo(() => searchTranscripts(
+    Object.values(transcripts)
+      .filter(t => videoNumbers.has(t.videoId))
+      .sort((a, b) => videoNumbers.get(a.videoId)! - videoNumbers.get(b.videoId)!),
+    query
+  ), [transcripts, videoNumbers, query]);
+
+  const uniqueVideoIds = videoIdsKey ? videoIdsKey.split(',') : [];
+  const unloadedVideoIds = uniqueVideoIds.filter(id => !transcripts[id] && loadStates[id]?.status !== 'missing');
+
+  // Search only sees transcripts that have been loaded, so offer to fetch the rest
+  const loadAll = async () => {
+    setIsLoadingAll(true);
+    for (const videoId of unloadedVideoIds) {
+      if (unmountedRef.current) return;
+      await loadFromYouTube(videoId);
+    }
+    if (!unmountedRef.current) setIsLoadingAll(false);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentVideo) return;
+
+    setUploadError(null);
+    try {
+      const uploaded = await saveUploadedTranscript(currentVideo.id, file);
+      setTranscripts(prev => ({ ...prev, [uploaded.videoId]: uploaded }));
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to read the caption file');
+    }
+  };
+
+  const removeTranscript = async () => {
+    if (!currentVideo) return;
+
+    await deleteTranscript(currentVideo.id);
+    setTranscripts(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== currentVideo.id)));
+    // Leave it marked so YouTube isn't asked again until the next visit
+    setLoadStates(prev => ({ ...prev, [currentVideo.id]: { status: 'missing' } }));
+  };
+
+  return (
+    <div className={`bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-gray-200 flex items-center gap-2">
+          <FileText size={16} className="text-green-400" />
+          Transcript
+        </h3>
+        <div className="flex items-center gap-1">
+          {transcript && !query && !isFollowing && (
+            <button
+              onClick={() => setIsFollowing(true)}
+              className="flex items-center gap-1 px-1.5 py-0.5 text-xs text-blue-400 hover:text-blue-300 bg-blue-500/10 rounded transition-colors"
+              title="Scroll along with the video"
+            >
+              <Crosshair size={12} />
+              Follow
+            </button>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+            title={`Upload captions for this video (${TRANSCRIPT_FILE_EXTENSIONS.join(', ')})`}
+          >
+            <Upload size={14} />
+          </button>
+          {transcript && (
+            <button
+              onClick={removeTranscript}
+              className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+              title="Remove this transcript"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={TRANSCRIPT_FILE_EXTENSIONS.join(',')}
+            onChange={handleUpload}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="relative mb-3">
+        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-500" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search all transcripts..."
+          className="w-full bg-gray-800 border border-gray-600 rounded-lg pl-8 pr-8 py-1.5 text-sm text-white placeholder-gray-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+        />
+        {query && (
+          <button
+            onClick={() => setQuery('')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 hover:text-white transition-colors"
+            title="Clear search"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {uploadError && <p className="text-xs text-red-400 mb-2">{uploadError}</p>}
+
+      {query ? (
+        <>
+          {unloadedVideoIds.length > 0 && (
+            <button
+              onClick={loadAll}
+              disabled={isLoadingAll}
+              className="w-full mb-2 flex items-center justify-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-50 transition-colors"
+            >
+              {isLoadingAll && <Loader2 size={12} className="animate-spin" />}
+              {isLoadingAll
+                ? 'Loading captions...'
+                : `Search ${unloadedVideoIds.length} more ${unloadedVideoIds.length === 1 ? 'video' : 'videos'} by loading their captions`}
+            </button>
+          )}
+
+          {matches.length === 0 ? (
+            <p className="text-xs text-gray-500 text-center py-4">No lines match &quot;{query}&quot;</p>
+          ) : (
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {matches.slice(0, MAX_SEARCH_RESULTS).map(({ videoId, cue }) => (
+                <button
+                  key={`${videoId}-${cue.start}`}
+                  onClick={() => onSeek(videoId, cue.start)}
+                  className="w-full text-left p-2 rounded text-sm text-gray-300 hover:bg-gray-700/50 transition-colors"
+                >
+                  <span className="text-xs font-mono text-blue-400 mr-2">
+                    #{videoNumbers.get(videoId)} · {formatTimestamp(cue.start)}
+                  </span>
+                  <Highlighted text={cue.text} words={searchWords} />
+                </button>
+              ))}
+              {matches.length > MAX_SEARCH_RESULTS && (
+                <p className="text-xs text-gray-500 text-center py-2">
+                  Showing the first {MAX_SEARCH_RESULTS} of {matches.length} matches
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      ) : transcript ? (
+        <>
+          <div
+            ref={listRef}
+            onWheel={() => setIsFollowing(false)}
+            onTouchMove={() => setIsFollowing(false)}
+            className="relative space-y-0.5 max-h-64 overflow-y-auto"
+          >
+            {transcript.cues.map((cue, index) => (
+              <button
+                key={`${cue.start}-${index}`}
+                ref={index === activeCueIndex ? activeCueRef : undefined}
+                onClick={() => onSeek(transcript.videoId, cue.start)}
+                className={`w-full text-left px-2 py-1 rounded text-sm transition-colors flex gap-2 ${
+                  index === activeCueIndex
+                    ? 'bg-blue-500/20 text-blue-300'
+                    : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700/50'
+                }`}
+              >
+                <span className="text-xs font-mono text-gray-500 pt-0.5 flex-shrink-0">{formatTimestamp(cue.start)}</span>
+                <span>{cue.text}</span>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {transcript.source === 'upload' ? `From ${transcript.fileName}` : `YouTube captions (${transcript.language})`}
+          </p>
+        </>
+      ) : (
+        <div className="text-xs text-gray-500 text-center py-4">
+          {!savedLoaded || loadState?.status === 'loading' ? (
+            <span className="flex items-center justify-center gap-2">
+              <Loader2 size={12} className="animate-spin" />
+              Loading captions...
+            </span>
+          ) : loadState?.status === 'error' && currentVideo ? (
+            <>
+              <span className="text-red-400">{loadState.message}</span>{' '}
+              <button
+                onClick={() => loadFromYouTube(currentVideo.id)}
+                className="text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                Try again
+              </button>
+            </>
+          ) : (
+            <>
+              No captions for this video.{' '}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                Upload a .vtt or .srt file
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,101 @@
 'use client';
 
 import { analytics } from '@/lib/analytics';
-import { VideoInfo } from '@/lib/youtube';
-import { Maximize, Minimize, Monitor, Pause, Play, Settings, SkipBack, SkipForward, Subtitles, Volume2, VolumeX } from 'lucide-react';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { DEFAULT_PLAYBACK_PREFERENCES, PLAYBACK_RATES, PlaybackPreferences, QUALITY_LABELS } from '@/lib/playback-preferences';
+import { VideoBookmark, VideoSegment } from '@/lib/session';
+import { getChapterIndex, getPlayerErrorKind, PLAYER_ERROR_MESSAGES, VideoInfo } from '@/lib/youtube';
+import { AlertTriangle, BookmarkPlus, ExternalLink, ListOrdered, Maximize, Minimize, Monitor, Pause, Play, Repeat, Settings, SkipBack, SkipForward, Subtitles, Volume2, VolumeX, X } from 'lucide-react';
+import { Ref, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import YouTube, { YouTubeProps } from 'react-youtube';
+import { BOOKMARK_CATEGORY_COLORS } from './BookmarksPanel';
+
+// Imperative controls exposed to the parent through the `ref` prop
+export interface VideoPlayerHandle {
+  getCurrentTime: () => number;
+  seekTo: (seconds: number) => void;
+  play: () => void;
+}
 
 interface VideoPlayerProps {
+  ref?: Ref<VideoPlayerHandle>;
   videos: VideoInfo[];
   currentIndex: number;
+  previousIndex?: number; // where the previous/next buttons go, -1 for nowhere; defaults to the neighbours
+  nextIndex?: number;
+  startTime?: number; // in seconds, where the current video starts playing
   onVideoEnd: () => void;
   onVideoChange: (index: number) => void;
   onTimeUpdate?: (currentTime: number, duration: number) => void;
   onTitleUpdate?: (title: string, videoIndex: number) => void;
   onPlay?: () => void;
   onPause?: () => void;
+  onPlaybackError?: (code: number) => void; // the player's onError code: 2, 5, 100, 101 or 150
+  segments?: VideoSegment[]; // saved loops; only the current video's are shown
+  onSaveSegment?: (videoId: string, name: string, start: number, end: number) => void;
+  onDeleteSegment?: (segmentId: string) => void;
+  bookmarks?: VideoBookmark[]; // only the current video's are shown
+  onAddBookmark?: (videoId: string, timestamp: number) => void;
+  preferences?: PlaybackPreferences; // resolved for the current video and applied when it loads
+  onPreferenceChange?: (change: PlaybackPreferences) => void; // the user changed speed, quality, captions or mute
   className?: string;
 }
 
+// 0 loops until the loop is cleared
+const LOOP_REPEAT_OPTIONS = [0, 2, 3, 5, 10];
+// "Slow down on each repeat" steps down one speed per pass, but no further than this
+const LOOP_MIN_RATE = 0.5;
+const LOOP_RATE_STEP = 0.25;
+
+// Turn captions on (English if available, else the first track) or off
+function setCaptionsTrack(player: any, enabled: boolean) { // eslint-disable-line @typescript-eslint/no-explicit-any
+  if (!enabled) {
+    player.setOption('captions', 'track', {});
+    return;
+  }
+
+  // Method 1: Try to set English captions directly
+  try {
+    player.setOption('captions', 'track', { 'languageCode': 'en' });
+  } catch {
+    // Method 2: Get available tracks and find English
+    const tracks = player.getOption('captions', 'tracklist') || [];
+
+    if (tracks.length > 0) {
+      // Look for English tracks first
+      const englishTrack = tracks.find((track: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
+        const lang = track.languageCode?.toLowerCase() || '';
+        const name = track.displayName?.toLowerCase() || '';
+        return lang.includes('en') || name.includes('english');
+      });
+
+      // If no English track found, use the first available
+      const trackToUse = englishTrack || tracks[0];
+      player.setOption('captions', 'track', trackToUse);
+    }
+  }
+}
+
 export default function VideoPlayer({
+  ref,
   videos,
   currentIndex,
+  previousIndex = currentIndex - 1,
+  nextIndex = currentIndex + 1 < videos.length ? currentIndex + 1 : -1,
+  startTime = 0,
   onVideoEnd,
   onVideoChange,
   onTimeUpdate,
   onTitleUpdate,
   onPlay: onPlayCallback,
   onPause: onPauseCallback,
+  onPlaybackError,
+  segments = [],
+  onSaveSegment,
+  onDeleteSegment,
+  bookmarks = [],
+  onAddBookmark,
+  preferences = DEFAULT_PLAYBACK_PREFERENCES,
+  onPreferenceChange,
   className = ''
 }: VideoPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
@@ -37,17 +106,41 @@ export default function VideoPlayer({
   const [playbackRate, setPlaybackRate] = useState(1);
   const [showSpeedMenu, setShowSpeedMenu] = useState(false);
   const [showQualityMenu, setShowQualityMenu] = useState(false);
+  const [showChapterMenu, setShowChapterMenu] = useState(false);
+  const [showLoopMenu, setShowLoopMenu] = useState(false);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [loopRepeatLimit, setLoopRepeatLimit] = useState(0);
+  const [loopRepeats, setLoopRepeats] = useState(0);
+  const [slowDownOnRepeat, setSlowDownOnRepeat] = useState(false);
+  const [draggingLoopPoint, setDraggingLoopPoint] = useState<'start' | 'end' | null>(null);
+  const [segmentName, setSegmentName] = useState('');
+  const [bookmarkToast, setBookmarkToast] = useState<number | null>(null); // timestamp just bookmarked
   const [captionsEnabled, setCaptionsEnabled] = useState(false);
   const [currentQuality, setCurrentQuality] = useState('auto');
   const [availableQualities, setAvailableQualities] = useState<string[]>(['auto']);
   const [showControls, setShowControls] = useState(true);
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [errorCode, setErrorCode] = useState<number | null>(null);
   const playerRef = useRef<any>(null); // eslint-disable-line @typescript-eslint/no-explicit-any
   const containerRef = useRef<HTMLDivElement>(null);
   const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const progressBarRef = useRef<HTMLDivElement>(null);
+  const loopBaseRateRef = useRef<number | null>(null); // speed before "slow down on each repeat" kicked in
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+
+  // Keep the latest callback without restarting the progress interval on every parent render
+  useEffect(() => {
+    onTimeUpdateRef.current = onTimeUpdate;
+  }, [onTimeUpdate]);
 
   const currentVideo = videos[currentIndex];
+  const chapters = currentVideo?.chapters;
+  const currentChapterIndex = chapters ? getChapterIndex(chapters, currentTime) : -1;
+  const videoSegments = segments.filter(segment => segment.videoId === currentVideo?.id);
+  const videoBookmarks = bookmarks.filter(bookmark => bookmark.videoId === currentVideo?.id);
+  const isLooping = loopStart !== null && loopEnd !== null && loopEnd > loopStart;
 
   const opts: YouTubeProps['opts'] = {
     height: '100%',
@@ -67,27 +160,32 @@ export default function VideoPlayer({
       cc_lang_pref: 'en', // Preferred caption language (English)
       cc_language: 'en', // Force English captions when available
       playsinline: 1, // Play inline on mobile
+      start: Math.floor(startTime), // Resume from the saved position
+      // Clips stop at their end; YouTube then reports the video as ended
+      ...(currentVideo?.end !== undefined ? { end: Math.floor(currentVideo.end) } : {}),
       origin: typeof window !== 'undefined' ? window.location.origin : ''
     },
   };
 
-  // Quality mapping for user-friendly display
-  const qualityMap: Record<string, string> = {
-    'auto': 'Auto',
-    'hd2160': '2160p',
-    'hd1440': '1440p',
-    'hd1080': '1080p',
-    'hd720': '720p',
-    'large': '480p',
-    'medium': '360p',
-    'small': '240p',
-    'tiny': '144p'
-  };
+  useImperativeHandle(ref, () => ({
+    getCurrentTime: () => playerRef.current?.getCurrentTime() ?? 0,
+    seekTo: (seconds: number) => {
+      if (!playerRef.current) return;
+      playerRef.current.seekTo(seconds, true);
+      setCurrentTime(seconds);
+    },
+    play: () => {
+      if (!playerRef.current) return;
+      playerRef.current.playVideo();
+      setIsLoading(false); // onEnd expects a new video, which doesn't come when the same one repeats
+    }
+  }), []);
 
   const onReady = useCallback((event: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
     playerRef.current = event.target;
     const videoDuration = event.target.getDuration();
     setDuration(videoDuration);
+    setCurrentTime(startTime);
     setIsLoading(false);
     
     // Get available quality levels
@@ -99,9 +197,12 @@ export default function VideoPlayer({
         const allQualities = ['auto', ...qualities.filter((q: any) => q)]; // eslint-disable-line @typescript-eslint/no-explicit-any
         setAvailableQualities(allQualities);
         
-        // Set highest quality by default (first in the list after auto is usually highest)
+        // Use the preferred quality when this video has it, otherwise the highest
         const highestQuality = qualities[0]; // YouTube typically returns qualities in descending order
-        if (highestQuality && highestQuality !== 'auto') {
+        if (preferences.quality && allQualities.includes(preferences.quality)) {
+          event.target.setPlaybackQuality(preferences.quality);
+          setCurrentQuality(preferences.quality);
+        } else if (highestQuality && highestQuality !== 'auto') {
           event.target.setPlaybackQuality(highestQuality);
           setCurrentQuality(highestQuality);
         } else {
@@ -110,10 +211,10 @@ export default function VideoPlayer({
       } else {
         // Fallback qualities if API fails
         setAvailableQualities(['auto', 'hd1080', 'hd720', 'large', 'medium']);
-        // Try to set 1080p as default
+        // Try to set the preferred quality, or 1080p as default
         try {
-          event.target.setPlaybackQuality('hd1080');
-          setCurrentQuality('hd1080');
+          event.target.setPlaybackQuality(preferences.quality ?? 'hd1080');
+          setCurrentQuality(preferences.quality ?? 'hd1080');
         } catch {
           setCurrentQuality('auto');
         }
@@ -122,6 +223,28 @@ export default function VideoPlayer({
       // Fallback qualities if API fails
       setAvailableQualities(['auto', 'hd1080', 'hd720', 'large', 'medium']);
     }
+
+    // Every video starts with a fresh player, so restore speed, mute and captions
+    try {
+      const rate = preferences.playbackRate ?? 1;
+      event.target.setPlaybackRate(rate);
+      setPlaybackRate(rate);
+
+      if (preferences.muted) {
+        event.target.mute();
+      } else {
+        event.target.unMute();
+      }
+      setIsMuted(!!preferences.muted);
+
+      if (preferences.captions) {
+        event.target.loadModule('captions');
+        setCaptionsTrack(event.target, true);
+      }
+      setCaptionsEnabled(!!preferences.captions);
+    } catch {
+      // Silently handle preference errors
+    }
     
     // Fetch video title from YouTube API
     if (onTitleUpdate && currentVideo) {
@@ -134,7 +257,7 @@ export default function VideoPlayer({
         // Silently handle video title fetch errors
       }
     }
-  }, [onTitleUpdate, currentVideo, currentIndex]);
+  }, [onTitleUpdate, currentVideo, currentIndex, startTime, preferences]);
 
   const onPlay = useCallback(() => {
     setIsPlaying(true);
@@ -152,6 +275,13 @@ export default function VideoPlayer({
     onVideoEnd();
   }, [onVideoEnd]);
 
+  const onError = useCallback((event: { data: number }) => {
+    setIsPlaying(false);
+    setIsLoading(false);
+    setErrorCode(event.data);
+    onPlaybackError?.(event.data);
+  }, [onPlaybackError]);
+
   const onStateChange = useCallback((event: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
     const state = event.data;
     const currentVideo = videos[currentIndex];
@@ -190,7 +320,7 @@ export default function VideoPlayer({
         if (playerRef.current) {
           const time = playerRef.current.getCurrentTime();
           setCurrentTime(time);
-          onTimeUpdate?.(time, duration);
+          onTimeUpdateRef.current?.(time, duration);
         }
       }, 1000);
     }
@@ -198,7 +328,7 @@ export default function VideoPlayer({
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isPlaying, duration, onTimeUpdate]);
+  }, [isPlaying, duration]);
 
   const togglePlay = useCallback(() => {
     if (!playerRef.current) return;
@@ -217,7 +347,8 @@ export default function VideoPlayer({
     setPlaybackRate(rate);
     setShowSpeedMenu(false);
     setShowQualityMenu(false);
-  }, []);
+    onPreferenceChange?.({ playbackRate: rate });
+  }, [onPreferenceChange]);
 
   const changeQuality = useCallback((quality: string) => {
     if (!playerRef.current) return;
@@ -227,6 +358,7 @@ export default function VideoPlayer({
       setCurrentQuality(quality);
       setShowQualityMenu(false);
       setShowSpeedMenu(false);
+      onPreferenceChange?.({ quality });
       
       // Force quality change by reloading video if necessary
       if (quality !== 'auto') {
@@ -251,39 +383,13 @@ export default function VideoPlayer({
     } catch {
       // Silently handle quality change errors
     }
-  }, [currentVideo.id]);
+  }, [currentVideo.id, onPreferenceChange]);
 
   const toggleCaptions = useCallback(() => {
     if (!playerRef.current) return;
     
     try {
-      if (captionsEnabled) {
-        // Disable captions
-        playerRef.current.setOption('captions', 'track', {});
-      } else {
-        // Enable captions - try multiple approaches
-        
-        // Method 1: Try to set English captions directly
-        try {
-          playerRef.current.setOption('captions', 'track', { 'languageCode': 'en' });
-        } catch {
-          // Method 2: Get available tracks and find English
-          const tracks = playerRef.current.getOption('captions', 'tracklist') || [];
-          
-          if (tracks.length > 0) {
-            // Look for English tracks first
-            const englishTrack = tracks.find((track: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
-              const lang = track.languageCode?.toLowerCase() || '';
-              const name = track.displayName?.toLowerCase() || '';
-              return lang.includes('en') || name.includes('english');
-            });
-            
-            // If no English track found, use the first available
-            const trackToUse = englishTrack || tracks[0];
-            playerRef.current.setOption('captions', 'track', trackToUse);
-          }
-        }
-      }
+      setCaptionsTrack(playerRef.current, !captionsEnabled);
     } catch {
       // Silently handle caption errors
     }
@@ -291,7 +397,8 @@ export default function VideoPlayer({
     setCaptionsEnabled(!captionsEnabled);
     setShowSpeedMenu(false);
     setShowQualityMenu(false);
-  }, [captionsEnabled]);
+    onPreferenceChange?.({ captions: !captionsEnabled });
+  }, [captionsEnabled, onPreferenceChange]);
 
   const handleProgressClick = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
     if (!playerRef.current || duration === 0) return;
@@ -374,17 +481,174 @@ export default function VideoPlayer({
     }
   }, []);
 
+  const seekToChapter = useCallback((index: number) => {
+    if (!playerRef.current || !chapters?.[index]) return;
+
+    playerRef.current.seekTo(chapters[index].start, true);
+    setCurrentTime(chapters[index].start);
+    setShowChapterMenu(false);
+  }, [chapters]);
+
+  // Like a music player: going back within the first few seconds of a chapter jumps to the one before
+  const previousChapter = useCallback(() => {
+    if (!playerRef.current || !chapters) return;
+
+    const time = playerRef.current.getCurrentTime() || 0;
+    const index = getChapterIndex(chapters, time);
+    if (index < 0) return;
+    seekToChapter(time - chapters[index].start < 3 ? Math.max(0, index - 1) : index);
+  }, [chapters, seekToChapter]);
+
+  const nextChapter = useCallback(() => {
+    if (!playerRef.current || !chapters) return;
+
+    const index = getChapterIndex(chapters, playerRef.current.getCurrentTime() || 0);
+    if (index < chapters.length - 1) seekToChapter(index + 1);
+  }, [chapters, seekToChapter]);
+
+  const restoreLoopRate = useCallback(() => {
+    if (loopBaseRateRef.current === null) return;
+
+    playerRef.current?.setPlaybackRate(loopBaseRateRef.current);
+    setPlaybackRate(loopBaseRateRef.current);
+    loopBaseRateRef.current = null;
+  }, []);
+
+  const clearLoop = useCallback(() => {
+    restoreLoopRate();
+    setLoopStart(null);
+    setLoopEnd(null);
+    setLoopRepeats(0);
+  }, [restoreLoopRate]);
+
+  const setLoop = useCallback((start: number, end: number) => {
+    restoreLoopRate();
+    setLoopStart(start);
+    setLoopEnd(end);
+    setLoopRepeats(0);
+  }, [restoreLoopRate]);
+
+  // A and B are set at the playhead. Setting A past B (or B before A) starts a new loop there.
+  const setLoopPointA = useCallback(() => {
+    if (!playerRef.current) return;
+
+    const time = playerRef.current.getCurrentTime() || 0;
+    restoreLoopRate();
+    setLoopStart(time);
+    if (loopEnd !== null && loopEnd <= time) setLoopEnd(null);
+    setLoopRepeats(0);
+  }, [loopEnd, restoreLoopRate]);
+
+  const setLoopPointB = useCallback(() => {
+    if (!playerRef.current) return;
+
+    const time = playerRef.current.getCurrentTime() || 0;
+    const start = loopStart !== null && loopStart < time ? loopStart : 0;
+    if (time > start) setLoop(start, time);
+  }, [loopStart, setLoop]);
+
+  // Jump back to A whenever B is reached. The progress interval is too coarse for this.
+  useEffect(() => {
+    if (!isPlaying || !isLooping || loopStart === null || loopEnd === null) return;
+
+    const interval = setInterval(() => {
+      const player = playerRef.current;
+      if (!player || player.getCurrentTime() < loopEnd) return;
+
+      if (loopRepeatLimit > 0 && loopRepeats + 1 >= loopRepeatLimit) {
+        clearLoop(); // done: play on from B at the original speed
+        return;
+      }
+
+      player.seekTo(loopStart, true);
+      setCurrentTime(loopStart);
+      setLoopRepeats(loopRepeats + 1);
+
+      if (slowDownOnRepeat) {
+        const rate = player.getPlaybackRate() || 1;
+        const slower = Math.max(LOOP_MIN_RATE, rate - LOOP_RATE_STEP);
+        if (slower < rate) {
+          loopBaseRateRef.current ??= rate;
+          player.setPlaybackRate(slower);
+          setPlaybackRate(slower);
+        }
+      }
+    }, 200);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, isLooping, loopStart, loopEnd, loopRepeatLimit, loopRepeats, slowDownOnRepeat, clearLoop]);
+
+  // Dragging the A/B handles on the progress bar
+  useEffect(() => {
+    if (!draggingLoopPoint) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const bar = progressBarRef.current;
+      if (!bar || duration === 0) return;
+
+      const rect = bar.getBoundingClientRect();
+      const time = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration;
+      if (draggingLoopPoint === 'start') {
+        setLoopStart(Math.min(time, (loopEnd ?? duration) - 1));
+      } else {
+        setLoopEnd(Math.max(time, (loopStart ?? 0) + 1));
+      }
+      setLoopRepeats(0);
+    };
+
+    const handleMouseUp = () => setDraggingLoopPoint(null);
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [draggingLoopPoint, duration, loopStart, loopEnd]);
+
+  const playSegment = useCallback((segment: VideoSegment) => {
+    if (!playerRef.current) return;
+
+    setLoop(segment.start, segment.end);
+    playerRef.current.seekTo(segment.start, true);
+    playerRef.current.playVideo();
+    setCurrentTime(segment.start);
+  }, [setLoop]);
+
+  const saveLoopAsSegment = () => {
+    if (!isLooping || loopStart === null || loopEnd === null || !onSaveSegment) return;
+
+    const name = segmentName.trim() || `Loop ${formatTime(loopStart)}–${formatTime(loopEnd)}`;
+    onSaveSegment(currentVideo.id, name, loopStart, loopEnd);
+    setSegmentName('');
+  };
+
+  const addBookmark = useCallback(() => {
+    if (!playerRef.current || !onAddBookmark || !currentVideo) return;
+
+    const time = playerRef.current.getCurrentTime() || 0;
+    onAddBookmark(currentVideo.id, time);
+    setBookmarkToast(time);
+  }, [onAddBookmark, currentVideo]);
+
+  useEffect(() => {
+    if (bookmarkToast === null) return;
+
+    const timeout = setTimeout(() => setBookmarkToast(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [bookmarkToast]);
+
   const previousVideo = useCallback(() => {
-    if (currentIndex > 0) {
-      onVideoChange(currentIndex - 1);
+    if (previousIndex >= 0) {
+      onVideoChange(previousIndex);
     }
-  }, [currentIndex, onVideoChange]);
+  }, [previousIndex, onVideoChange]);
 
   const nextVideo = useCallback(() => {
-    if (currentIndex < videos.length - 1) {
-      onVideoChange(currentIndex + 1);
+    if (nextIndex >= 0) {
+      onVideoChange(nextIndex);
     }
-  }, [currentIndex, videos.length, onVideoChange]);
+  }, [nextIndex, onVideoChange]);
 
   const toggleFullscreen = useCallback(() => {
     if (!containerRef.current) return;
@@ -442,16 +706,24 @@ export default function VideoPlayer({
       if (showQualityMenu && !target.closest('[data-quality-menu]') && !target.closest('[data-quality-button]')) {
         setShowQualityMenu(false);
       }
+
+      if (showChapterMenu && !target.closest('[data-chapter-menu]') && !target.closest('[data-chapter-button]')) {
+        setShowChapterMenu(false);
+      }
+
+      if (showLoopMenu && !target.closest('[data-loop-menu]') && !target.closest('[data-loop-button]')) {
+        setShowLoopMenu(false);
+      }
     };
 
-    if (showSpeedMenu || showQualityMenu) {
+    if (showSpeedMenu || showQualityMenu || showChapterMenu || showLoopMenu) {
       document.addEventListener('mousedown', handleClickOutside);
     }
 
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showSpeedMenu, showQualityMenu]);
+  }, [showSpeedMenu, showQualityMenu, showChapterMenu, showLoopMenu]);
 
   useEffect(() => {
     resetControlsTimeout();
@@ -466,7 +738,8 @@ export default function VideoPlayer({
       playerRef.current.mute();
     }
     setIsMuted(!isMuted);
-  }, [isMuted]);
+    onPreferenceChange?.({ muted: !isMuted });
+  }, [isMuted, onPreferenceChange]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -493,11 +766,19 @@ export default function VideoPlayer({
           break;
         case 'arrowleft':
           e.preventDefault();
+          if (e.shiftKey && chapters) {
+            previousChapter();
+            break;
+          }
           console.log('⬅️ Left arrow pressed - seeking backward 10s');
           handleSeek(-10);
           break;
         case 'arrowright':
           e.preventDefault();
+          if (e.shiftKey && chapters) {
+            nextChapter();
+            break;
+          }
           console.log('➡️ Right arrow pressed - seeking forward 10s');
           handleSeek(10);
           break;
@@ -551,6 +832,22 @@ export default function VideoPlayer({
             changePlaybackRate(newRate);
           }
           break;
+        case '[':
+          e.preventDefault();
+          setLoopPointA();
+          break;
+        case ']':
+          e.preventDefault();
+          setLoopPointB();
+          break;
+        case '\\':
+          e.preventDefault();
+          clearLoop();
+          break;
+        case 'b':
+          e.preventDefault();
+          addBookmark();
+          break;
         case '?':
           e.preventDefault();
           setShowKeyboardHelp(prev => !prev);
@@ -565,12 +862,15 @@ export default function VideoPlayer({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isFullscreen, isPlaying, playbackRate, duration, togglePlay, handleSeek, toggleMute, toggleFullscreen, toggleCaptions, changePlaybackRate]);
+  }, [isFullscreen, isPlaying, playbackRate, duration, chapters, togglePlay, handleSeek, previousChapter, nextChapter, setLoopPointA, setLoopPointB, clearLoop, addBookmark, toggleMute, toggleFullscreen, toggleCaptions, changePlaybackRate]);
 
-  // Reset loading state when video changes
+  // Reset loading and error state when video changes
   useEffect(() => {
     setIsLoading(true);
-  }, [currentVideo.id]);
+    setErrorCode(null);
+    setShowChapterMenu(false);
+    clearLoop();
+  }, [currentVideo.id, clearLoop]);
 
   if (!currentVideo) {
     return (
@@ -604,11 +904,51 @@ export default function VideoPlayer({
           onPause={onPause}
           onEnd={onEnd}
           onStateChange={onStateChange}
+          onError={onError}
           className="w-full h-full"
           iframeClassName="w-full h-full"
         />
       </div>
 
+      {/* Bookmark confirmation */}
+      {bookmarkToast !== null && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 bg-black/80 backdrop-blur-sm border border-white/20 rounded-lg px-3 py-2 text-sm text-white pointer-events-none">
+          <BookmarkPlus size={16} className="text-yellow-400" />
+          Bookmarked {formatTime(bookmarkToast)}
+        </div>
+      )}
+
+      {/* Playback Error */}
+      {errorCode !== null && (
+        <div className="absolute inset-0 bg-gray-900 flex items-center justify-center z-20 p-6">
+          <div className="text-center max-w-sm">
+            <AlertTriangle className="text-yellow-400 mx-auto mb-3" size={32} />
+            <h3 className="text-white font-medium mb-1">{PLAYER_ERROR_MESSAGES[getPlayerErrorKind(errorCode)].label}</h3>
+            <p className="text-gray-400 text-sm mb-4">{PLAYER_ERROR_MESSAGES[getPlayerErrorKind(errorCode)].detail}</p>
+            <div className="flex items-center justify-center gap-2">
+              <a
+                href={`https://www.youtube.com/watch?v=${currentVideo.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white px-4 py-2 rounded-lg text-sm transition-colors"
+              >
+                <ExternalLink size={14} />
+                Open on YouTube
+              </a>
+              {nextIndex >= 0 && (
+                <button
+                  onClick={nextVideo}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+                >
+                  <SkipForward size={14} />
+                  Skip to next
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Custom Controls Overlay */}
       <div className={`absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-black/40 transition-opacity duration-300 ${showControls ? 'opacity-100' : 'opacity-0'}`}>
         {/* Top Bar - Video Info */}
@@ -618,8 +958,9 @@ export default function VideoPlayer({
               <h3 className="text-white font-medium text-sm truncate">
                 {currentVideo.title || `Video ${currentIndex + 1}`}
               </h3>
-              <p className="text-white/70 text-xs">
+              <p className="text-white/70 text-xs truncate">
                 {currentIndex + 1} of {videos.length}
+                {chapters && currentChapterIndex >= 0 && ` · ${chapters[currentChapterIndex].title}`}
               </p>
             </div>
           </div>
@@ -642,15 +983,83 @@ export default function VideoPlayer({
             <div className="flex items-center gap-2 text-xs text-white/70 mb-2">
               <span>{formatTime(currentTime)}</span>
               <div 
-                className="flex-1 bg-white/20 rounded-full h-1 cursor-pointer hover:h-2 transition-all duration-200"
+                ref={progressBarRef}
+                className="flex-1 bg-white/20 rounded-full h-1 cursor-pointer hover:h-2 transition-all duration-200 relative"
                 onClick={handleProgressClick}
               >
+                {/* Saved segments */}
+                {duration > 0 && videoSegments.map(segment => (
+                  <div
+                    key={segment.id}
+                    className="absolute top-0 h-full bg-purple-400/40"
+                    style={{
+                      left: `${(segment.start / duration) * 100}%`,
+                      width: `${((Math.min(segment.end, duration) - segment.start) / duration) * 100}%`
+                    }}
+                    title={segment.name}
+                  />
+                ))}
                 <div 
                   className="bg-blue-500 h-full rounded-full transition-all duration-300 relative"
                   style={{ width: `${duration > 0 ? (currentTime / duration) * 100 : 0}%` }}
                 >
                   <div className="absolute right-0 top-1/2 transform -translate-y-1/2 w-3 h-3 bg-blue-500 rounded-full opacity-0 hover:opacity-100 transition-opacity" />
                 </div>
+                {/* Chapter boundaries */}
+                {duration > 0 && chapters?.slice(1).filter(chapter => chapter.start < duration).map(chapter => (
+                  <div
+                    key={chapter.start}
+                    className="absolute top-0 h-full w-0.5 bg-black/70"
+                    style={{ left: `${(chapter.start / duration) * 100}%` }}
+                    title={chapter.title}
+                  />
+                ))}
+                {/* Bookmarks */}
+                {duration > 0 && videoBookmarks.filter(bookmark => bookmark.timestamp <= duration).map(bookmark => (
+                  <button
+                    key={bookmark.id}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      playerRef.current?.seekTo(bookmark.timestamp, true);
+                      setCurrentTime(bookmark.timestamp);
+                    }}
+                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2 h-2 rounded-full ring-1 ring-black/60 hover:scale-150 transition-transform ${
+                      BOOKMARK_CATEGORY_COLORS[bookmark.category ?? 'none'].dot
+                    }`}
+                    style={{ left: `${(bookmark.timestamp / duration) * 100}%` }}
+                    title={`${formatTime(bookmark.timestamp)}${bookmark.label ? ` · ${bookmark.label}` : ''}`}
+                  />
+                ))}
+                {/* A-B loop */}
+                {duration > 0 && loopStart !== null && (
+                  <>
+                    {isLooping && loopEnd !== null && (
+                      <div
+                        className="absolute top-0 h-full bg-yellow-400/40 pointer-events-none"
+                        style={{
+                          left: `${(loopStart / duration) * 100}%`,
+                          width: `${((loopEnd - loopStart) / duration) * 100}%`
+                        }}
+                      />
+                    )}
+                    {([['start', loopStart], ['end', loopEnd]] as const).map(([point, time]) => time !== null && (
+                      <div
+                        key={point}
+                        onMouseDown={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          setDraggingLoopPoint(point);
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3 h-4 bg-yellow-400 rounded-sm cursor-ew-resize flex items-center justify-center text-[9px] font-bold text-black"
+                        style={{ left: `${(time / duration) * 100}%` }}
+                        title={`Drag to move loop point ${point === 'start' ? 'A' : 'B'}`}
+                      >
+                        {point === 'start' ? 'A' : 'B'}
+                      </div>
+                    ))}
+                  </>
+                )}
               </div>
               <span>{formatTime(duration)}</span>
             </div>
@@ -662,7 +1071,7 @@ export default function VideoPlayer({
             <div className="flex items-center gap-1 sm:gap-2">
               <button
                 onClick={previousVideo}
-                disabled={currentIndex === 0}
+                disabled={previousIndex < 0}
                 className="text-white/80 hover:text-white disabled:text-white/40 transition-colors p-2"
                 title="Previous video"
               >
@@ -695,7 +1104,7 @@ export default function VideoPlayer({
               
               <button
                 onClick={nextVideo}
-                disabled={currentIndex === videos.length - 1}
+                disabled={nextIndex < 0}
                 className="text-white/80 hover:text-white disabled:text-white/40 transition-colors p-2"
                 title="Next video"
               >
@@ -721,6 +1130,159 @@ export default function VideoPlayer({
                 <Subtitles size={20} />
               </button>
 
+              {/* A-B Loop */}
+              <div className="relative">
+                <button
+                  onClick={() => setShowLoopMenu(!showLoopMenu)}
+                  className={`hover:text-white transition-colors p-2 ${isLooping ? 'text-yellow-400' : 'text-white/80'}`}
+                  title="A-B loop"
+                  data-loop-button
+                >
+                  <Repeat size={20} />
+                </button>
+
+                {showLoopMenu && (
+                  <div className="absolute bottom-full right-0 mb-2 w-72 bg-black/90 backdrop-blur-sm rounded-lg shadow-lg border border-white/20 p-3 space-y-3 text-xs text-white" data-loop-menu>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={setLoopPointA}
+                        className="flex-1 bg-white/10 hover:bg-white/20 rounded px-2 py-1.5 transition-colors"
+                        title="Set A at the current time ([)"
+                      >
+                        A {loopStart !== null ? formatTime(loopStart) : '–'}
+                      </button>
+                      <button
+                        onClick={setLoopPointB}
+                        className="flex-1 bg-white/10 hover:bg-white/20 rounded px-2 py-1.5 transition-colors"
+                        title="Set B at the current time (])"
+                      >
+                        B {loopEnd !== null ? formatTime(loopEnd) : '–'}
+                      </button>
+                      <button
+                        onClick={clearLoop}
+                        disabled={loopStart === null && loopEnd === null}
+                        className="p-1.5 text-white/60 hover:text-white disabled:opacity-40 transition-colors"
+                        title="Clear loop (\)"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-2">
+                      <label htmlFor="loop-repeat-limit" className="text-white/70">Repeat</label>
+                      <select
+                        id="loop-repeat-limit"
+                        value={loopRepeatLimit}
+                        onChange={(e) => setLoopRepeatLimit(Number(e.target.value))}
+                        className="bg-white/10 border border-white/20 rounded px-2 py-1 text-white outline-none"
+                      >
+                        {LOOP_REPEAT_OPTIONS.map(option => (
+                          <option key={option} value={option} className="bg-gray-900">
+                            {option === 0 ? 'Until cleared' : `${option} times`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-white/70">
+                      <input
+                        type="checkbox"
+                        checked={slowDownOnRepeat}
+                        onChange={(e) => setSlowDownOnRepeat(e.target.checked)}
+                        className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                      />
+                      Slow down on each repeat
+                    </label>
+
+                    {isLooping && (
+                      <p className="text-yellow-400">
+                        Pass {loopRepeats + 1}{loopRepeatLimit > 0 && ` of ${loopRepeatLimit}`}
+                      </p>
+                    )}
+
+                    {onSaveSegment && (
+                      <div className="flex items-center gap-2 pt-2 border-t border-white/10">
+                        <input
+                          type="text"
+                          value={segmentName}
+                          onChange={(e) => setSegmentName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveLoopAsSegment();
+                          }}
+                          placeholder="Segment name"
+                          maxLength={100}
+                          className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded px-2 py-1 text-white placeholder-white/40 outline-none focus:border-blue-500"
+                        />
+                        <button
+                          onClick={saveLoopAsSegment}
+                          disabled={!isLooping}
+                          className="bg-blue-500 hover:bg-blue-600 disabled:bg-white/10 disabled:text-white/40 rounded px-2 py-1 transition-colors"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    )}
+
+                    {videoSegments.length > 0 && (
+                      <div className="space-y-1 max-h-40 overflow-y-auto">
+                        {videoSegments.map(segment => (
+                          <div key={segment.id} className="flex items-center gap-1 group">
+                            <button
+                              onClick={() => playSegment(segment)}
+                              className="flex-1 min-w-0 text-left px-2 py-1 rounded hover:bg-white/10 transition-colors flex gap-2"
+                              title="Loop this segment"
+                            >
+                              <span className="text-white/60 font-mono">{formatTime(segment.start)}–{formatTime(segment.end)}</span>
+                              <span className="truncate">{segment.name}</span>
+                            </button>
+                            {onDeleteSegment && (
+                              <button
+                                onClick={() => onDeleteSegment(segment.id)}
+                                className="p-1 text-white/40 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+                                title="Delete segment"
+                              >
+                                <X size={12} />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Chapters */}
+              {chapters && (
+                <div className="relative">
+                  <button
+                    onClick={() => setShowChapterMenu(!showChapterMenu)}
+                    className={`text-white/80 hover:text-white transition-colors p-2 ${showChapterMenu ? 'text-blue-400' : ''}`}
+                    title="Chapters"
+                    data-chapter-button
+                  >
+                    <ListOrdered size={20} />
+                  </button>
+
+                  {showChapterMenu && (
+                    <div className="absolute bottom-full right-0 mb-2 w-64 max-h-64 overflow-y-auto bg-black/90 backdrop-blur-sm rounded-lg shadow-lg border border-white/20" data-chapter-menu>
+                      {chapters.map((chapter, index) => (
+                        <button
+                          key={chapter.start}
+                          onClick={() => seekToChapter(index)}
+                          className={`w-full text-left px-3 py-2 text-white text-xs hover:bg-white/10 transition-colors flex gap-2 ${
+                            index === currentChapterIndex ? 'bg-blue-500/20 text-blue-400' : ''
+                          }`}
+                        >
+                          <span className="text-white/60 font-mono">{formatTime(chapter.start)}</span>
+                          <span className="truncate">{chapter.title}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Quality Control */}
               <div className="relative">
                 <button
@@ -730,7 +1292,7 @@ export default function VideoPlayer({
                   data-quality-button
                 >
                   <Monitor size={16} />
-                  <span className="text-xs font-medium">{qualityMap[currentQuality] || currentQuality}</span>
+                  <span className="text-xs font-medium">{QUALITY_LABELS[currentQuality] || currentQuality}</span>
                 </button>
 
                 {showQualityMenu && (
@@ -743,7 +1305,7 @@ export default function VideoPlayer({
                           currentQuality === quality ? 'bg-blue-500/20 text-blue-400' : ''
                         }`}
                       >
-                        {qualityMap[quality] || quality}
+                        {QUALITY_LABELS[quality] || quality}
                       </button>
                     ))}
                   </div>
@@ -764,7 +1326,7 @@ export default function VideoPlayer({
 
                 {showSpeedMenu && (
                   <div className="absolute bottom-full right-0 mb-2 w-24 bg-black/90 backdrop-blur-sm rounded-lg shadow-lg overflow-hidden border border-white/20" data-speed-menu>
-                    {[0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2].map(rate => (
+                    {PLAYBACK_RATES.map(rate => (
                       <button
                         key={rate}
                         onClick={() => changePlaybackRate(rate)}
@@ -787,6 +1349,16 @@ export default function VideoPlayer({
                 {isFullscreen ? <Minimize size={20} /> : <Maximize size={20} />}
               </button>
               
+              {onAddBookmark && (
+                <button
+                  onClick={addBookmark}
+                  className="text-white/80 hover:text-white transition-colors p-2"
+                  title="Bookmark this moment (B)"
+                >
+                  <BookmarkPlus size={20} />
+                </button>
+              )}
+
               <button
                 onClick={() => setShowKeyboardHelp(prev => !prev)}
                 className="text-white/80 hover:text-white transition-colors p-2"
@@ -838,6 +1410,10 @@ export default function VideoPlayer({
                       <span>Captions</span>
                       <kbd className="bg-gray-800 px-1 py-0.5 rounded text-xs">C</kbd>
                     </div>
+                    <div className="flex justify-between">
+                      <span>Bookmark</span>
+                      <kbd className="bg-gray-800 px-1 py-0.5 rounded text-xs">B</kbd>
+                    </div>
                   </div>
                 </div>
                 
@@ -852,6 +1428,10 @@ export default function VideoPlayer({
                       <span>Seek +10s</span>
                       <kbd className="bg-gray-800 px-1 py-0.5 rounded text-xs">→</kbd>
                     </div>
+                    <div className="flex justify-between">
+                      <span>Prev/next chapter</span>
+                      <kbd className="bg-gray-800 px-1 py-0.5 rounded text-xs">Shift ←/→</kbd>
+                    </div>
                     <div className="flex justify-between">
                       <span>Go to %</span>
                       <kbd className="bg-gray-800 px-1 py-0.5 rounded text-xs">1-9</kbd>
@@ -874,6 +1454,24 @@ export default function VideoPlayer({
                 </div>
               </div>
               
+              <div className="border-t border-gray-700 pt-3">
+                <h4 className="font-medium text-gray-300 mb-2">A-B Loop</h4>
+                <div className="space-y-1 text-gray-400">
+                  <div className="flex justify-between">
+                    <span>Set loop start (A)</span>
+                    <kbd className="bg-gray-800 px-1 py-0.5 rounded text-xs">[</kbd>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Set loop end (B)</span>
+                    <kbd className="bg-gray-800 px-1 py-0.5 rounded text-xs">]</kbd>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Clear loop</span>
+                    <kbd className="bg-gray-800 px-1 py-0.5 rounded text-xs">{'\\'}</kbd>
+                  </div>
+                </div>
+              </div>
+
               <div className="border-t border-gray-700 pt-3">
                 <div className="flex justify-between text-gray-400">
                   <span>Show this help</span>
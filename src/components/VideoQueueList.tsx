@@ -0,0 +1,202 @@
+'use client';
+
+import { isPassedOver } from '@/lib/playback-order';
+import { getVideoError, getVideoProgress, getVideoWatchedFraction, StudySession } from '@/lib/session';
+import { getPlayerErrorKind, PLAYER_ERROR_MESSAGES, VideoInfo } from '@/lib/youtube';
+import { AlertTriangle, Check, CheckCircle2, CornerDownRight, GripVertical, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface VideoQueueListProps {
+  session: StudySession;
+  videos: VideoInfo[]; // the flat play order
+  currentIndex: number;
+  nextIndex: number; // what plays after the current video in the session's playback mode
+  onSelect: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onPlayNext: (index: number) => void;
+  onRemove: (index: number) => void;
+  compact?: boolean; // the mobile bottom sheet
+  className?: string;
+}
+
+function formatTime(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+export default function VideoQueueList({
+  session,
+  videos,
+  currentIndex,
+  nextIndex,
+  onSelect,
+  onMove,
+  onPlayNext,
+  onRemove,
+  compact = false,
+  className = ''
+}: VideoQueueListProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const getQueueProgress = (video: VideoInfo) => {
+    const progress = getVideoProgress(session, video.id);
+    const error = getVideoError(session, video.id);
+    return {
+      isCompleted: progress?.status === 'completed',
+      fraction: getVideoWatchedFraction(progress, video.duration),
+      errorLabel: error ? PLAYER_ERROR_MESSAGES[getPlayerErrorKind(error.code)].label : null
+    };
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onMove(dragIndex, index);
+    }
+    endDrag();
+  };
+
+  // Clicks stop here so they don't also switch videos. There's no hover on touch
+  // screens, so the bottom sheet always shows them. "Play next" is left out where it
+  // would change nothing: for what already plays next, or a video the mode passes over.
+  const renderActions = (index: number) => (
+    <div className={`flex items-center gap-0.5 flex-shrink-0 ${compact ? '' : 'opacity-0 group-hover:opacity-100 transition-opacity'}`}>
+      {index !== currentIndex && index !== nextIndex && !isPassedOver(session, videos[index].id) && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onPlayNext(index);
+          }}
+          className="p-1 text-gray-400 hover:text-white transition-colors"
+          title="Play next"
+        >
+          <CornerDownRight size={12} />
+        </button>
+      )}
+      {videos.length > 1 && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove(index);
+          }}
+          className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+          title="Remove from queue"
+        >
+          <X size={12} />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={`space-y-2 overflow-y-auto ${compact ? 'max-h-32' : 'max-h-64'} ${className}`}>
+      {videos.map((video, index) => {
+        const { isCompleted, fraction, errorLabel } = getQueueProgress(video);
+        // Line marking where the dragged video will land
+        const dropMarker = dropIndex === index && dragIndex !== null && dragIndex !== index
+          ? (dragIndex < index ? 'border-b-2 border-b-blue-400' : 'border-t-2 border-t-blue-400')
+          : '';
+
+        return (
+          <div
+            key={`${video.id}-${index}`}
+            role="button"
+            tabIndex={0}
+            draggable
+            onClick={() => onSelect(index)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') onSelect(index);
+            }}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={endDrag}
+            className={`group w-full text-left rounded-lg text-sm transition-colors cursor-pointer ${compact ? 'p-2' : 'p-3'} ${
+              index === currentIndex
+                ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700/50'
+            } ${dragIndex === index ? 'opacity-50' : ''} ${dropMarker}`}
+          >
+            {compact ? (
+              <div className="flex items-center gap-2">
+                <span className="text-xs">#{index + 1}</span>
+                <span className="truncate text-xs flex-1">
+                  {video.title || 'Loading...'}
+                </span>
+                {errorLabel && <AlertTriangle size={12} className="text-red-400 flex-shrink-0" aria-label={errorLabel} />}
+                {isCompleted && <Check size={12} className="text-green-400 flex-shrink-0" />}
+                {renderActions(index)}
+              </div>
+            ) : (
+              <div className="flex items-start gap-3">
+                <span className="text-xs bg-gray-700 px-2 py-1 rounded flex-shrink-0 flex items-center gap-1">
+                  <GripVertical size={10} className="text-gray-500 cursor-grab" />
+                  #{index + 1}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <div className="font-medium text-sm truncate">
+                    {video.title || 'Loading title...'}
+                  </div>
+                  {errorLabel ? (
+                    <div className="text-xs text-red-400 mt-1 flex items-center gap-1">
+                      <AlertTriangle size={12} />
+                      {errorLabel}
+                    </div>
+                  ) : (video.start !== undefined || video.end !== undefined) ? (
+                    <div className="text-xs text-gray-500 mt-1">
+                      Clip {formatTime(video.start ?? 0)}–{video.end !== undefined ? formatTime(video.end) : 'end'}
+                    </div>
+                  ) : video.duration && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {Math.floor(video.duration / 60)}:{(video.duration % 60).toString().padStart(2, '0')}
+                    </div>
+                  )}
+                  {fraction > 0 && (
+                    <div className="mt-2 h-0.5 bg-gray-700 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${isCompleted ? 'bg-green-400' : 'bg-blue-500'}`}
+                        style={{ width: `${fraction * 100}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+                {renderActions(index)}
+                {isCompleted && (
+                  <CheckCircle2 size={16} className="text-green-400 flex-shrink-0" aria-label="Watched" />
+                )}
+              </div>
+            )}
+            {compact && fraction > 0 && (
+              <div className="mt-1 h-0.5 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${isCompleted ? 'bg-green-400' : 'bg-blue-500'}`}
+                  style={{ width: `${fraction * 100}%` }}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { parseYouTubeUrls, parseYouTubeUrlsAsync, PlaylistInfo, VideoInfo } from '@/lib/youtube';
-import { AlertCircle, CheckCircle, Link, Plus, Trash2 } from 'lucide-react';
+import { extractChannelRef, parseYouTubeUrlsAsync, PlaylistInfo, VideoFilters, VideoInfo } from '@/lib/youtube';
+import { AlertCircle, CheckCircle, Filter, Link, Plus, Trash2 } from 'lucide-react';
 import { useState } from 'react';
 
 interface VideoUrlInputProps {
@@ -15,6 +15,9 @@ export default function VideoUrlInput({ onVideosAdded, className = '' }: VideoUr
   const [errors, setErrors] = useState<string[]>([]);
   const [successCount, setSuccessCount] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('');
+  const [filters, setFilters] = useState<VideoFilters>({});
+
+  const hasChannels = urlInput.split('\n').some(url => extractChannelRef(url.trim()) !== null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,18 +35,15 @@ export default function VideoUrlInput({ onVideosAdded, className = '' }: VideoUr
         .map(url => url.trim())
         .filter(url => url.length > 0);
 
-      // Check if any URLs contain playlists
-      const hasPlaylists = urls.some(url => url.includes('list='));
+      // Check if any URLs contain playlists (a channel is its uploads playlist)
+      const hasPlaylists = hasChannels || urls.some(url => url.includes('list='));
       
-      let result;
-      if (hasPlaylists) {
-        setLoadingMessage('Fetching playlist data from YouTube...');
-        // Use async function for real playlist data
-        result = await parseYouTubeUrlsAsync(urls);
-      } else {
-        // Use sync function for individual videos
-        result = parseYouTubeUrls(urls);
-      }
+      setLoadingMessage(hasChannels
+        ? 'Fetching channel uploads from YouTube...'
+        : hasPlaylists ? 'Fetching playlist data from YouTube...' : 'Fetching video details from YouTube...');
+      // Falls back to basic info (ids only) when YouTube can't be reached
+      const hasFilters = Object.values(filters).some(value => value !== undefined && value !== '');
+      const result = await parseYouTubeUrlsAsync(urls, hasFilters ? filters : undefined);
 
       const { videos, playlists, errors: parseErrors } = result;
 
@@ -56,13 +56,16 @@ export default function VideoUrlInput({ onVideosAdded, className = '' }: VideoUr
         setSuccessCount(totalItems);
         onVideosAdded(videos, playlists, urls); // Pass original URLs
         setUrlInput('');
+        setFilters({});
         
-        if (hasPlaylists) {
+        if (playlists.some(p => p.nextPageToken)) {
+          setLoadingMessage('✅ First page loaded! The rest of the playlist streams in once the session starts.');
+        } else if (hasPlaylists) {
           setLoadingMessage('✅ Successfully loaded real playlist content!');
         }
       }
     } catch {
-      setErrors(['An error occurred while processing URLs. Please check your YouTube API key configuration.']);
+      setErrors(['Something went wrong while processing the URLs. Please try again.']);
     } finally {
       setIsProcessing(false);
       setTimeout(() => setLoadingMessage(''), 3000);
@@ -121,6 +124,58 @@ https://youtube.com/playlist?list=PLrAXtmRdnEQy6nuLMHjMZU6NoQW2i1x71`}
           </div>
         </div>
 
+        {hasChannels && (
+          <fieldset className="bg-gray-800/50 border border-gray-700 rounded-lg p-3 space-y-3" disabled={isProcessing}>
+            <legend className="px-1 text-sm font-medium text-gray-300 flex items-center gap-1">
+              <Filter size={14} />
+              Channel filters (optional)
+            </legend>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-400">
+                Published from
+                <input
+                  type="date"
+                  value={filters.publishedAfter ?? ''}
+                  onChange={(e) => setFilters(prev => ({ ...prev, publishedAfter: e.target.value || undefined }))}
+                  className="mt-1 w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Published until
+                <input
+                  type="date"
+                  value={filters.publishedBefore ?? ''}
+                  onChange={(e) => setFilters(prev => ({ ...prev, publishedBefore: e.target.value || undefined }))}
+                  className="mt-1 w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Title contains
+                <input
+                  type="text"
+                  value={filters.keyword ?? ''}
+                  onChange={(e) => setFilters(prev => ({ ...prev, keyword: e.target.value || undefined }))}
+                  placeholder="e.g. lecture"
+                  className="mt-1 w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white placeholder-gray-500"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Minimum length (minutes)
+                <input
+                  type="number"
+                  min={0}
+                  value={filters.minDuration !== undefined ? filters.minDuration / 60 : ''}
+                  onChange={(e) => setFilters(prev => ({
+                    ...prev,
+                    minDuration: e.target.value ? Math.max(0, Number(e.target.value)) * 60 : undefined
+                  }))}
+                  className="mt-1 w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                />
+              </label>
+            </div>
+          </fieldset>
+        )}
+
         <div className="flex gap-2">
           <button
             type="submit"
@@ -184,8 +239,10 @@ https://youtube.com/playlist?list=PLrAXtmRdnEQy6nuLMHjMZU6NoQW2i1x71`}
       <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
         <h4 className="text-blue-400 font-medium text-sm mb-1">Supported formats:</h4>
         <ul className="text-blue-300 text-xs space-y-1">
-          <li>• Individual videos: youtube.com/watch?v=... or youtu.be/...</li>
+          <li>• Individual videos: youtube.com/watch?v=..., youtu.be/..., /shorts/... or /live/...</li>
+          <li>• Clips: add t=12m (or start=720) and end=2400 to play only part of a video</li>
           <li>• Playlists: youtube.com/playlist?list=...</li>
+          <li>• Channels: youtube.com/@handle, /channel/UC... or /c/... (adds the channel&apos;s uploads)</li>
           <li>• Multiple URLs: One per line</li>
         </ul>
         </div>
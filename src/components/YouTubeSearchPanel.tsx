@@ -0,0 +1,183 @@
+'use client';
+
+import { parseYouTubeUrlsAsync, PlaylistInfo, searchYouTube, VideoInfo, YouTubeSearchResult } from '@/lib/youtube';
+import { AlertCircle, ListVideo, Plus, Search } from 'lucide-react';
+import { useState } from 'react';
+
+interface YouTubeSearchPanelProps {
+  onVideosAdded: (videos: VideoInfo[], playlists: PlaylistInfo[], sourceUrls: string[]) => void;
+  className?: string;
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+    : `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+export default function YouTubeSearchPanel({ onVideosAdded, className = '' }: YouTubeSearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [results, setResults] = useState<YouTubeSearchResult[]>([]);
+  const [nextPageToken, setNextPageToken] = useState<string | undefined>();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSearching, setIsSearching] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSearch = async (searchQuery: string, pageToken?: string) => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const page = await searchYouTube(searchQuery, pageToken);
+      setResults(prev => pageToken ? [...prev, ...page.results] : page.results);
+      setNextPageToken(page.nextPageToken);
+      setSearchedQuery(searchQuery);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim() || isSearching) return;
+
+    setSelected(new Set());
+    runSearch(query.trim());
+  };
+
+  const toggle = (url: string) => {
+    const next = new Set(selected);
+    if (next.has(url)) next.delete(url);
+    else next.add(url);
+    setSelected(next);
+  };
+
+  // Goes through the same resolve step as pasted URLs, so playlists get their videos
+  const addSelected = async () => {
+    if (selected.size === 0 || isAdding) return;
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      const urls = results.filter(result => selected.has(result.url)).map(result => result.url);
+      const { videos, playlists, errors } = await parseYouTubeUrlsAsync(urls);
+
+      if (errors.length > 0) {
+        setError(errors.join('\n'));
+      }
+      if (videos.length > 0 || playlists.length > 0) {
+        onVideosAdded(videos, playlists, urls);
+        setSelected(new Set());
+      }
+    } catch {
+      setError('Something went wrong while adding the selected results. Please try again.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className={`bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-6 ${className}`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Search className="text-blue-400" size={20} />
+        <h3 className="text-lg font-semibold text-white">Search YouTube</h3>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="e.g. linear algebra lecture"
+          maxLength={200}
+          className="flex-1 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!query.trim() || isSearching}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          {isSearching && results.length === 0 ? 'Searching...' : 'Search'}
+        </button>
+      </form>
+      <p className="text-xs text-gray-500 mt-2">Only videos and playlists are shown. Each search costs 100 units of the server&apos;s daily YouTube quota.</p>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2">
+          <AlertCircle className="text-red-400 flex-shrink-0 mt-0.5" size={16} />
+          <span className="text-red-400 text-sm whitespace-pre-line">{error}</span>
+        </div>
+      )}
+
+      {searchedQuery && !isSearching && results.length === 0 && !error && (
+        <p className="mt-4 text-sm text-gray-400">No videos or playlists found for &quot;{searchedQuery}&quot;.</p>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <div className="mt-4 space-y-2 max-h-96 overflow-y-auto">
+            {results.map(result => (
+              <label
+                key={result.url}
+                className={`flex items-start gap-3 p-2 rounded-lg cursor-pointer transition-colors ${
+                  selected.has(result.url) ? 'bg-blue-500/20 border border-blue-500/30' : 'hover:bg-gray-800/50 border border-transparent'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(result.url)}
+                  onChange={() => toggle(result.url)}
+                  className="mt-1 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                />
+                {result.thumbnail && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={result.thumbnail} alt="" className="w-24 aspect-video object-cover rounded flex-shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm text-white line-clamp-2">{result.title}</div>
+                  <div className="text-xs text-gray-400 mt-1 flex items-center gap-2">
+                    {result.kind === 'playlist' ? (
+                      <span className="flex items-center gap-1 text-purple-400">
+                        <ListVideo size={12} />
+                        Playlist
+                      </span>
+                    ) : result.duration !== undefined && (
+                      <span>{formatDuration(result.duration)}</span>
+                    )}
+                    {result.channelTitle && <span className="truncate">{result.channelTitle}</span>}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-4 flex gap-2">
+            <button
+              onClick={addSelected}
+              disabled={selected.size === 0 || isAdding}
+              className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus size={18} />
+              {isAdding ? 'Adding...' : `Add ${selected.size} selected`}
+            </button>
+            {nextPageToken && (
+              <button
+                onClick={() => runSearch(searchedQuery, nextPageToken)}
+                disabled={isSearching}
+                className="px-4 py-2 border border-gray-600 text-gray-300 hover:text-white hover:border-gray-500 disabled:opacity-50 rounded-lg transition-colors"
+              >
+                {isSearching ? 'Loading...' : 'More results'}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { StudySession } from '@/lib/session';
+import { getIncompletePlaylists } from '@/lib/session-queue';
+import { fetchPlaylistPage, PlaylistPage } from '@/lib/youtube';
+import { useCallback, useEffect, useState } from 'react';
+
+export interface PlaylistLoadProgress {
+  playlistId: string;
+  title: string;
+  loaded: number;
+  total?: number;
+  remainingPlaylists: number; // other playlists waiting behind this one
+}
+
+// Loads the remaining pages of long playlists one request at a time. Each page is handed to
+// onPage, which stores it on the session; the new nextPageToken then triggers the next request.
+export function usePlaylistStreaming(
+  session: StudySession,
+  onPage: (playlistId: string, page: PlaylistPage) => void,
+  onCancel: (playlistId: string) => void
+) {
+  const [error, setError] = useState<string | null>(null);
+
+  const [playlist, ...waiting] = getIncompletePlaylists(session);
+  const playlistId = playlist?.id;
+  const pageToken = playlist?.nextPageToken;
+
+  useEffect(() => {
+    if (!playlistId || !pageToken || error) return;
+
+    const controller = new AbortController();
+    fetchPlaylistPage(playlistId, pageToken, { signal: controller.signal })
+      .then(page => onPage(playlistId, page))
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error(`Error loading playlist ${playlistId}:`, err);
+        setError(err instanceof Error ? err.message : 'Failed to load the rest of the playlist');
+      });
+
+    return () => controller.abort();
+  }, [playlistId, pageToken, error, onPage]);
+
+  const cancel = useCallback(() => {
+    if (!playlistId) return;
+    setError(null);
+    onCancel(playlistId);
+  }, [playlistId, onCancel]);
+
+  // Clearing the error re-runs the request for the same page
+  const retry = useCallback(() => setError(null), []);
+
+  const progress: PlaylistLoadProgress | null = playlist
+    ? {
+        playlistId: playlist.id,
+        title: playlist.title || `Playlist ${playlist.id}`,
+        loaded: playlist.videos.length,
+        total: playlist.totalVideos,
+        remainingPlaylists: waiting.length
+      }
+    : null;
+
+  return { progress, error, cancel, retry };
+}
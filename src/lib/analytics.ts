@@ -29,6 +29,18 @@ export const analytics = {
     });
   },
 
+  sessionExported: (format: 'markdown' | 'json' | 'csv') => {
+    track('session_exported', {
+      format: format,
+    });
+  },
+
+  sessionsImported: (sessionCount: number) => {
+    track('sessions_imported', {
+      session_count: sessionCount,
+    });
+  },
+
   // Video interaction events
   videoAdded: (videoType: 'single' | 'playlist') => {
     track('video_added', {
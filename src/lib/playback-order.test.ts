@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createShuffleOrder,
+  getNextQueueIndex,
+  getPlaybackProgress,
+  getPreviousQueueIndex,
+  getShuffledIndexes,
+  isPassedOver
+} from './playback-order';
+import { createNewSession, PlaybackMode, StudySession } from './session';
+import { playQueueVideoNext } from './session-queue';
+
+function session(videoIds: string[], updates: Partial<StudySession> = {}): StudySession {
+  const videos = videoIds.map(id => ({ id, url: `https://www.youtube.com/watch?v=${id}` }));
+  return { ...createNewSession('Test', videos, []), ...updates };
+}
+
+function completed(...videoIds: string[]): StudySession['videoProgress'] {
+  return Object.fromEntries(videoIds.map(id => [id, {
+    position: 0,
+    furthest: 100,
+    status: 'completed' as const,
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  }]));
+}
+
+describe('getNextQueueIndex / getPreviousQueueIndex', () => {
+  it.each<[PlaybackMode, number, number]>([
+    ['sequential', -1, 1],
+    ['repeat-all', 0, 1],
+    ['repeat-one', -1, 1]
+  ])('%s from the last and the first video', (playbackMode, nextFromLast, nextFromFirst) => {
+    const s = session(['a', 'b', 'c'], { playbackMode });
+
+    expect(getNextQueueIndex(s, 2)).toBe(nextFromLast);
+    expect(getNextQueueIndex(s, 0)).toBe(nextFromFirst);
+  });
+
+  it('replays the video when it ends in repeat-one', () => {
+    expect(getNextQueueIndex(session(['a', 'b'], { playbackMode: 'repeat-one' }), 0, true)).toBe(0);
+  });
+
+  it('wraps back to the end in repeat-all', () => {
+    const s = session(['a', 'b', 'c'], { playbackMode: 'repeat-all' });
+    expect(getPreviousQueueIndex(s, 0)).toBe(2);
+  });
+
+  it('follows the shuffle order both ways', () => {
+    const s = session(['a', 'b', 'c'], { playbackMode: 'shuffle', shuffleOrder: ['b', 'c', 'a'] });
+
+    expect(getNextQueueIndex(s, 1)).toBe(2);
+    expect(getNextQueueIndex(s, 0)).toBe(-1);
+    expect(getPreviousQueueIndex(s, 2)).toBe(1);
+    expect(getPlaybackProgress(s, 2)).toBeCloseTo(2 / 3);
+  });
+
+  it('goes to the next unwatched video in unwatched-first, wrapping around', () => {
+    const s = session(['a', 'b', 'c', 'd'], { playbackMode: 'unwatched-first', videoProgress: completed('c', 'd') });
+
+    expect(getNextQueueIndex(s, 1)).toBe(0);
+    expect(getPlaybackProgress(s, 0)).toBe(3 / 4);
+  });
+
+  it('skips unplayable videos when auto-skip is on', () => {
+    const videoErrors = { b: { code: 150, detectedAt: '2024-01-01T00:00:00.000Z' } };
+
+    expect(getNextQueueIndex(session(['a', 'b', 'c'], { videoErrors }), 0)).toBe(1);
+    expect(getNextQueueIndex(session(['a', 'b', 'c'], { videoErrors, autoSkipUnavailable: true }), 0)).toBe(2);
+  });
+});
+
+describe('shuffle order', () => {
+  it('starts with the current video and holds every video once', () => {
+    const s = session(['a', 'b', 'c', 'd'], { currentVideoIndex: 2 });
+    const order = createShuffleOrder(s);
+
+    expect(order[0]).toBe('c');
+    expect([...order].sort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('plays videos added after the shuffle last, and duplicates in turn', () => {
+    const s = session(['a', 'b', 'a', 'c'], { shuffleOrder: ['a', 'b', 'a'] });
+    expect(getShuffledIndexes(s)).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('isPassedOver', () => {
+  it('marks watched videos in unwatched-first only', () => {
+    const videoProgress = completed('a');
+
+    expect(isPassedOver(session(['a'], { videoProgress }), 'a')).toBe(false);
+    expect(isPassedOver(session(['a'], { videoProgress, playbackMode: 'unwatched-first' }), 'a')).toBe(true);
+  });
+});
+
+describe('playQueueVideoNext', () => {
+  it('makes the video play next in shuffle', () => {
+    const s = session(['a', 'b', 'c', 'd'], { playbackMode: 'shuffle', shuffleOrder: ['a', 'b', 'c', 'd'] });
+    const updated = playQueueVideoNext(s, 3);
+
+    expect(updated.videos.map(v => v.id)).toEqual(['a', 'd', 'b', 'c']);
+    expect(updated.shuffleOrder).toEqual(['a', 'd', 'b', 'c']);
+    expect(getNextQueueIndex(updated, updated.currentVideoIndex)).toBe(1);
+  });
+
+  it('moves the video after the current one in its shuffled place too', () => {
+    const s = session(['a', 'b', 'c', 'd'], { playbackMode: 'shuffle', shuffleOrder: ['c', 'a', 'd', 'b'], currentVideoIndex: 2 });
+    const updated = playQueueVideoNext(s, 1);
+
+    const nextIndex = getNextQueueIndex(updated, updated.currentVideoIndex);
+    expect(updated.videos[nextIndex].id).toBe('b');
+    expect(updated.videos[updated.currentVideoIndex].id).toBe('c');
+  });
+});
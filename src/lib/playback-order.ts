@@ -0,0 +1,133 @@
+import { getAllSessionVideos, getVideoProgress, isVideoUnplayable, PlaybackMode, StudySession } from './session';
+
+// Which video plays next, or came before, under the session's playback mode. Indexes are
+// positions in the flat queue (see getAllSessionVideos).
+
+export const PLAYBACK_MODE_LABELS: Record<PlaybackMode, string> = {
+  'sequential': 'In order',
+  'shuffle': 'Shuffle',
+  'repeat-one': 'Repeat one',
+  'repeat-all': 'Repeat all',
+  'unwatched-first': 'Unwatched first'
+};
+
+export function getPlaybackMode(session: StudySession): PlaybackMode {
+  return session.playbackMode ?? 'sequential';
+}
+
+// A new shuffle that starts with the current video, so every other video plays once after it
+export function createShuffleOrder(session: StudySession): string[] {
+  const queue = getAllSessionVideos(session);
+  const rest = queue
+    .filter((_, index) => index !== session.currentVideoIndex)
+    .map(video => video.id);
+
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+
+  const current = queue[session.currentVideoIndex];
+  return current ? [current.id, ...rest] : rest;
+}
+
+// Queue positions in shuffled order. Videos queued more than once take their positions in
+// turn; videos added after the shuffle was drawn play last, in queue order.
+export function getShuffledIndexes(session: StudySession): number[] {
+  const queue = getAllSessionVideos(session);
+  const unused = new Map<string, number[]>();
+  queue.forEach((video, index) => unused.set(video.id, [...(unused.get(video.id) ?? []), index]));
+
+  const order: number[] = [];
+  for (const id of session.shuffleOrder ?? []) {
+    const index = unused.get(id)?.shift();
+    if (index !== undefined) order.push(index);
+  }
+
+  const placed = new Set(order);
+  return [...order, ...queue.map((_, index) => index).filter(index => !placed.has(index))];
+}
+
+// One step forward without skipping anything; -1 when the mode has nothing left
+function getModeStep(session: StudySession, from: number, ended: boolean): number {
+  const queue = getAllSessionVideos(session);
+  const sequentialNext = from + 1 < queue.length ? from + 1 : -1;
+
+  switch (getPlaybackMode(session)) {
+    case 'repeat-one':
+      return ended ? from : sequentialNext;
+    case 'repeat-all':
+      return queue.length > 0 ? (from + 1) % queue.length : -1;
+    case 'shuffle': {
+      const order = getShuffledIndexes(session);
+      const position = order.indexOf(from);
+      return position >= 0 && position + 1 < order.length ? order[position + 1] : -1;
+    }
+    case 'unwatched-first':
+      // The next video that isn't watched yet, wrapping around to the ones skipped earlier
+      for (let offset = 1; offset < queue.length; offset++) {
+        const index = (from + offset) % queue.length;
+        const video = queue[index];
+        if (video.id !== queue[from].id && getVideoProgress(session, video.id)?.status !== 'completed') return index;
+      }
+      return -1;
+    default:
+      return sequentialNext;
+  }
+}
+
+// The position to play after `from`, or -1. `ended` is true when the video finished on its
+// own, which is when "repeat one" plays it again; the next button moves on instead.
+export function getNextQueueIndex(session: StudySession, from: number, ended = false): number {
+  const queue = getAllSessionVideos(session);
+  let index = getModeStep(session, from, ended);
+
+  for (let steps = 0; index >= 0 && steps < queue.length; steps++) {
+    if (!session.autoSkipUnavailable || !isVideoUnplayable(session, queue[index].id)) return index;
+    index = getModeStep(session, index, false);
+  }
+  return -1;
+}
+
+// Videos the next button would pass over wherever they are queued: watched ones in
+// "unwatched first", and unplayable ones while they are being skipped
+export function isPassedOver(session: StudySession, videoId: string): boolean {
+  return (session.autoSkipUnavailable === true && isVideoUnplayable(session, videoId)) ||
+    (getPlaybackMode(session) === 'unwatched-first' && getVideoProgress(session, videoId)?.status === 'completed');
+}
+
+export function getPreviousQueueIndex(session: StudySession, from: number): number {
+  const length = getAllSessionVideos(session).length;
+
+  switch (getPlaybackMode(session)) {
+    case 'repeat-all':
+      return length > 0 ? (from - 1 + length) % length : -1;
+    case 'shuffle': {
+      const order = getShuffledIndexes(session);
+      const position = order.indexOf(from);
+      return position > 0 ? order[position - 1] : -1;
+    }
+    default:
+      return from - 1;
+  }
+}
+
+// How far through the session `index` is, from 0 to 1: its place in the shuffle, or for
+// "unwatched first" the share of other videos already watched.
+export function getPlaybackProgress(session: StudySession, index: number): number {
+  const queue = getAllSessionVideos(session);
+  if (queue.length === 0) return 0;
+
+  switch (getPlaybackMode(session)) {
+    case 'shuffle':
+      return (getShuffledIndexes(session).indexOf(index) + 1) / queue.length;
+    case 'unwatched-first': {
+      const watched = queue.filter((video, i) =>
+        i !== index && getVideoProgress(session, video.id)?.status === 'completed'
+      ).length;
+      return (watched + 1) / queue.length;
+    }
+    default:
+      return (index + 1) / queue.length;
+  }
+}
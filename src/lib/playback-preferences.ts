@@ -0,0 +1,106 @@
+// Player settings restored whenever a video loads. Three layers, most specific wins:
+// global defaults (this browser, in localStorage), the session's overrides and
+// per-video overrides (both stored on the StudySession).
+
+export interface PlaybackPreferences {
+  playbackRate?: number;
+  quality?: string; // YouTube quality level such as 'hd1080', or 'auto'
+  captions?: boolean;
+  muted?: boolean;
+}
+
+export type PlaybackPreferenceKey = keyof PlaybackPreferences;
+
+export type PlaybackPreferenceScope = 'global' | 'session' | 'video';
+
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// YouTube quality levels with user-friendly names
+export const QUALITY_LABELS: Record<string, string> = {
+  'auto': 'Auto',
+  'hd2160': '2160p',
+  'hd1440': '1440p',
+  'hd1080': '1080p',
+  'hd720': '720p',
+  'large': '480p',
+  'medium': '360p',
+  'small': '240p',
+  'tiny': '144p'
+};
+
+// Used where no layer sets a value. Quality has no default: the player picks the highest available.
+export const DEFAULT_PLAYBACK_PREFERENCES: PlaybackPreferences = {
+  playbackRate: 1,
+  captions: false,
+  muted: false
+};
+
+const GLOBAL_PREFERENCES_KEY = 'focus0_playback_preferences';
+
+export function isValidPlaybackPreferences(value: unknown): value is PlaybackPreferences {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+  const record = value as Record<string, unknown>;
+  return (record.playbackRate === undefined || PLAYBACK_RATES.includes(record.playbackRate as number)) &&
+    (record.quality === undefined || typeof record.quality === 'string') &&
+    (record.captions === undefined || typeof record.captions === 'boolean') &&
+    (record.muted === undefined || typeof record.muted === 'boolean');
+}
+
+export function getGlobalPlaybackPreferences(): PlaybackPreferences {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const saved = localStorage.getItem(GLOBAL_PREFERENCES_KEY);
+    const parsed = saved ? JSON.parse(saved) : {};
+    return isValidPlaybackPreferences(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveGlobalPlaybackPreferences(preferences: PlaybackPreferences): void {
+  try {
+    localStorage.setItem(GLOBAL_PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Error saving playback preferences:', error);
+  }
+}
+
+// Layers from least to most specific; unset values fall through to the next layer down
+export function resolvePlaybackPreferences(...layers: (PlaybackPreferences | undefined)[]): PlaybackPreferences {
+  const resolved: PlaybackPreferences = { ...DEFAULT_PLAYBACK_PREFERENCES };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of Object.keys(layer) as PlaybackPreferenceKey[]) {
+      if (layer[key] !== undefined) Object.assign(resolved, { [key]: layer[key] });
+    }
+  }
+  return resolved;
+}
+
+// Returns a copy with one value set, or removed (inherited again) when `value` is undefined
+export function setPlaybackPreference<K extends PlaybackPreferenceKey>(
+  preferences: PlaybackPreferences | undefined,
+  key: K,
+  value: PlaybackPreferences[K]
+): PlaybackPreferences {
+  const updated = { ...preferences };
+  if (value === undefined) {
+    delete updated[key];
+  } else {
+    updated[key] = value;
+  }
+  return updated;
+}
+
+// Where a change made in the player is remembered: the most specific layer that already sets
+// the value, so a per-video override stays per-video. Otherwise the session, never the global
+// defaults, which are only edited explicitly.
+export function getPreferenceScopeForChange(
+  key: PlaybackPreferenceKey,
+  videoPreferences: PlaybackPreferences | undefined
+): Exclude<PlaybackPreferenceScope, 'global'> {
+  return videoPreferences?.[key] !== undefined ? 'video' : 'session';
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlaylist, hasPlaylistChanges, mergeManualPlaylistEdits } from './playlist-sync';
+import { PlaylistInfo } from './youtube';
+
+function playlist(videoIds: string[], edits: Pick<PlaylistInfo, 'addedVideoIds' | 'removedVideoIds'> = {}): PlaylistInfo {
+  return {
+    id: 'PL1',
+    url: 'https://www.youtube.com/playlist?list=PL1',
+    videos: videoIds.map(id => ({ id, url: `https://www.youtube.com/watch?v=${id}` })),
+    ...edits
+  };
+}
+
+function ids(videos: { id: string }[]): string[] {
+  return videos.map(video => video.id);
+}
+
+describe('diffPlaylist', () => {
+  it('finds added, removed and moved videos', () => {
+    const diff = diffPlaylist(playlist(['a', 'b', 'c', 'd']), playlist(['b', 'c', 'a', 'e']));
+
+    expect(ids(diff.added)).toEqual(['e']);
+    expect(ids(diff.removed)).toEqual(['d']);
+    expect(ids(diff.moved)).toEqual(['a']);
+  });
+
+  it('reports nothing for an unchanged playlist', () => {
+    expect(hasPlaylistChanges(diffPlaylist(playlist(['a', 'b']), playlist(['a', 'b'])))).toBe(false);
+  });
+
+  it('leaves out videos added or removed by hand', () => {
+    const saved = playlist(['a', 'x', 'b'], { addedVideoIds: ['x'], removedVideoIds: ['c'] });
+    const diff = diffPlaylist(saved, playlist(['a', 'b', 'c', 'd']));
+
+    expect(ids(diff.added)).toEqual(['d']);
+    expect(diff.removed).toEqual([]);
+    expect(diff.moved).toEqual([]);
+  });
+});
+
+describe('mergeManualPlaylistEdits', () => {
+  it('keeps manual additions after the video they followed', () => {
+    const saved = playlist(['x', 'a', 'y', 'z', 'b'], { addedVideoIds: ['x', 'y', 'z'] });
+
+    expect(ids(mergeManualPlaylistEdits(saved, playlist(['b', 'a']).videos))).toEqual(['x', 'b', 'a', 'y', 'z']);
+  });
+
+  it('returns the latest videos unchanged without manual edits', () => {
+    const latest = playlist(['a', 'b']).videos;
+    expect(mergeManualPlaylistEdits(playlist(['b']), latest)).toBe(latest);
+  });
+});
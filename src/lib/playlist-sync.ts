@@ -0,0 +1,110 @@
+import { fetchLatestPlaylist, PlaylistInfo, VideoInfo } from './youtube';
+
+// Compares saved playlists with what is on YouTube now
+
+export interface PlaylistDiff {
+  added: VideoInfo[];
+  removed: VideoInfo[];
+  moved: VideoInfo[]; // still in the playlist, but no longer in the same order relative to the rest
+}
+
+export interface PlaylistUpdate {
+  playlist: PlaylistInfo; // as saved in the session
+  latest?: PlaylistInfo;
+  diff?: PlaylistDiff;
+  error?: string;
+}
+
+// Indices (into `values`) of one longest strictly increasing subsequence
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = []; // tails[k]: index of the smallest tail of an increasing run of length k + 1
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const result = new Set<number>();
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    result.add(index);
+  }
+  return result;
+}
+
+// The latest videos with the saved playlist's manual edits applied again: videos taken out by
+// hand stay out, and videos moved in by hand keep their place after the video they followed.
+export function mergeManualPlaylistEdits(saved: PlaylistInfo, latestVideos: VideoInfo[]): VideoInfo[] {
+  const added = new Set(saved.addedVideoIds);
+  const removed = new Set(saved.removedVideoIds);
+  if (added.size === 0 && removed.size === 0) return latestVideos;
+
+  const merged = latestVideos.filter(video => !added.has(video.id) && !removed.has(video.id));
+  let insertAt = 0;
+  for (const video of saved.videos) {
+    if (added.has(video.id)) {
+      merged.splice(insertAt++, 0, video);
+    } else {
+      const position = merged.findIndex(v => v.id === video.id);
+      if (position >= 0) insertAt = position + 1;
+    }
+  }
+  return merged;
+}
+
+// What applyPlaylistUpdate would change, so manual edits never show up as differences
+export function diffPlaylist(current: PlaylistInfo, latest: PlaylistInfo): PlaylistDiff {
+  const latestVideos = mergeManualPlaylistEdits(current, latest.videos);
+  const currentIds = new Set(current.videos.map(video => video.id));
+  const latestPositions = new Map<string, number>();
+  latestVideos.forEach((video, index) => {
+    if (!latestPositions.has(video.id)) latestPositions.set(video.id, index);
+  });
+
+  const seen = new Set<string>();
+  const kept = current.videos.filter(video => {
+    if (!latestPositions.has(video.id) || seen.has(video.id)) return false;
+    seen.add(video.id);
+    return true;
+  });
+
+  // The largest set of kept videos already in the new order stays put; everything else moved
+  const inOrder = longestIncreasingSubsequence(kept.map(video => latestPositions.get(video.id)!));
+
+  return {
+    added: latestVideos.filter(video => !currentIds.has(video.id)),
+    removed: current.videos.filter(video => !latestPositions.has(video.id)),
+    moved: kept.filter((_, index) => !inOrder.has(index))
+  };
+}
+
+export function hasPlaylistChanges(diff: PlaylistDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.moved.length > 0;
+}
+
+// Look each playlist up again, one at a time to go easy on the API quota.
+// Playlists that are still streaming in their first load are skipped.
+export async function checkPlaylistsForUpdates(playlists: PlaylistInfo[]): Promise<PlaylistUpdate[]> {
+  const updates: PlaylistUpdate[] = [];
+
+  for (const playlist of playlists) {
+    if (playlist.nextPageToken) continue;
+
+    try {
+      const latest = await fetchLatestPlaylist(playlist);
+      updates.push({ playlist, latest, diff: diffPlaylist(playlist, latest) });
+    } catch (error) {
+      console.error(`Error refreshing playlist ${playlist.id}:`, error);
+      updates.push({ playlist, error: error instanceof Error ? error.message : 'Failed to refresh playlist' });
+    }
+  }
+
+  return updates;
+}
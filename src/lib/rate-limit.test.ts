@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getClientKey, RateLimiter } from './rate-limit';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RateLimiter', () => {
+  it('allows `limit` requests per window for each client', () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(2, 60000);
+
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('b').allowed).toBe(true);
+
+    vi.advanceTimersByTime(15000);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 45000 });
+  });
+
+  it('starts a new window once the old one is over', () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(1, 60000);
+
+    limiter.take('a');
+    expect(limiter.take('a').allowed).toBe(false);
+
+    vi.advanceTimersByTime(60000);
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+});
+
+describe('getClientKey', () => {
+  it('uses the first forwarded address', () => {
+    expect(getClientKey(new Headers({ 'x-forwarded-for': '203.0.113.5, 10.0.0.1' }))).toBe('203.0.113.5');
+    expect(getClientKey(new Headers({ 'x-real-ip': '203.0.113.6' }))).toBe('203.0.113.6');
+    expect(getClientKey(new Headers())).toBe('unknown');
+  });
+});
@@ -0,0 +1,37 @@
+// Server-only: a fixed-window request limit per client, for public API routes that cost
+// something on every call. Counts are kept per instance, like the metadata caches.
+
+interface RateLimitWindow {
+  startedAt: number;
+  count: number;
+}
+
+export class RateLimiter {
+  private windows = new Map<string, RateLimitWindow>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  // Counts a request from `key` and says whether it is within the limit. When it isn't,
+  // retryAfterMs is how long until the client's window resets.
+  take(key: string): { allowed: boolean; retryAfterMs: number } {
+    const now = Date.now();
+    this.windows.forEach((window, existingKey) => {
+      if (now - window.startedAt >= this.windowMs) this.windows.delete(existingKey);
+    });
+
+    const window = this.windows.get(key) ?? { startedAt: now, count: 0 };
+    window.count++;
+    this.windows.set(key, window);
+
+    return window.count <= this.limit
+      ? { allowed: true, retryAfterMs: 0 }
+      : { allowed: false, retryAfterMs: window.startedAt + this.windowMs - now };
+  }
+}
+
+// The client's address as the proxy in front of the app reports it
+export function getClientKey(headers: Headers): string {
+  return headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    headers.get('x-real-ip') ||
+    'unknown';
+}
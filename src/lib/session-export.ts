@@ -0,0 +1,184 @@
+import { getAllSessionVideos, getVideoProgress, StudySession } from './session';
+import { createSessionBackup } from './session-import';
+
+export type SessionExportFormat = 'markdown' | 'json' | 'csv';
+
+export interface SessionExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+// Link that opens the video on YouTube at the given position
+export function getYouTubeDeepLink(videoId: string, seconds = 0): string {
+  const position = Math.floor(seconds);
+  return `https://www.youtube.com/watch?v=${videoId}${position > 0 ? `&t=${position}s` : ''}`;
+}
+
+function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 50);
+  return slug || 'session';
+}
+
+// Markdown inline text must not break the surrounding link/list syntax
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\[\]*_`])/g, '\\$1');
+}
+
+function escapeCsvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportSessionMarkdown(session: StudySession): string {
+  const videos = getAllSessionVideos(session);
+  const notes = session.notes ?? [];
+  const bookmarks = session.bookmarks ?? [];
+  const currentVideo = videos[session.currentVideoIndex];
+  const currentPosition = currentVideo ? getVideoProgress(session, currentVideo.id)?.position ?? 0 : 0;
+
+  const lines: string[] = [
+    `# ${session.name}`,
+    '',
+    `- **Created:** ${new Date(session.createdAt).toLocaleString()}`,
+    `- **Focus time:** ${formatDuration(session.focusTime)}`,
+    `- **Total study time:** ${formatDuration(session.totalStudyTime)}`,
+    `- **Completed pomodoros:** ${session.completedPomodoros}`
+  ];
+
+  if (currentVideo) {
+    lines.push(
+      `- **Current position:** Video ${session.currentVideoIndex + 1} of ${videos.length} at ` +
+      `[${formatDuration(currentPosition)}](${getYouTubeDeepLink(currentVideo.id, currentPosition)})`
+    );
+  }
+
+  lines.push('', '## Videos', '');
+
+  videos.forEach((video, index) => {
+    const progress = getVideoProgress(session, video.id);
+    const title = escapeMarkdown(video.title || `Video ${video.id}`);
+    const status = progress?.status ?? 'unwatched';
+    const duration = video.duration || progress?.duration;
+    const watched = progress && duration
+      ? ` (${formatDuration(progress.furthest)} / ${formatDuration(duration)})`
+      : '';
+
+    lines.push(`${index + 1}. [${title}](${getYouTubeDeepLink(video.id, progress?.position)}) — ${status}${watched}`);
+
+    notes
+      .filter(note => note.videoId === video.id)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(note => {
+        const [firstLine, ...rest] = note.content.split('\n');
+        lines.push(`    - [${formatDuration(note.timestamp)}](${getYouTubeDeepLink(video.id, note.timestamp)}) ${firstLine}`);
+        rest.forEach(line => lines.push(`      ${line}`));
+      });
+
+    bookmarks
+      .filter(bookmark => bookmark.videoId === video.id)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(bookmark => {
+        const label = bookmark.label ? ` ${escapeMarkdown(bookmark.label)}` : '';
+        const category = bookmark.category ? ` _(${bookmark.category})_` : '';
+        lines.push(`    - Bookmark [${formatDuration(bookmark.timestamp)}](${getYouTubeDeepLink(video.id, bookmark.timestamp)})${label}${category}`);
+      });
+  });
+
+  lines.push('', `_Exported from Focus0 on ${new Date().toLocaleString()}_`, '');
+  return lines.join('\n');
+}
+
+export function exportSessionJSON(session: StudySession): string {
+  return JSON.stringify(session, null, 2);
+}
+
+export function exportSessionCSV(session: StudySession): string {
+  const notes = session.notes ?? [];
+  const playlistByVideoIndex: (string | undefined)[] = [
+    ...session.videos.map(() => undefined),
+    ...session.playlists.flatMap(p => p.videos.map(() => p.title || p.id))
+  ];
+
+  const header = [
+    'index', 'video_id', 'title', 'playlist', 'url', 'duration_seconds',
+    'position_seconds', 'furthest_seconds', 'percent_watched', 'status', 'notes'
+  ];
+
+  const rows = getAllSessionVideos(session).map((video, index) => {
+    const progress = getVideoProgress(session, video.id);
+    const duration = video.duration || progress?.duration;
+    const percentWatched = progress?.status === 'completed'
+      ? 100
+      : progress && duration ? Math.round((progress.furthest / duration) * 100) : 0;
+
+    return [
+      index + 1,
+      video.id,
+      video.title,
+      playlistByVideoIndex[index],
+      getYouTubeDeepLink(video.id),
+      duration,
+      progress ? Math.floor(progress.position) : 0,
+      progress ? Math.floor(progress.furthest) : 0,
+      percentWatched,
+      progress?.status ?? 'unwatched',
+      notes.filter(note => note.videoId === video.id).length
+    ].map(escapeCsvField).join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function exportSession(session: StudySession, format: SessionExportFormat): SessionExportFile {
+  const baseName = `focus0-${slugify(session.name)}`;
+
+  switch (format) {
+    case 'markdown':
+      return { filename: `${baseName}.md`, content: exportSessionMarkdown(session), mimeType: 'text/markdown' };
+    case 'json':
+      return { filename: `${baseName}.json`, content: exportSessionJSON(session), mimeType: 'application/json' };
+    case 'csv':
+      return { filename: `${baseName}.csv`, content: exportSessionCSV(session), mimeType: 'text/csv' };
+  }
+}
+
+// Backup of every saved session, readable by the home page importer
+export function exportAllSessions(sessions: StudySession[]): SessionExportFile {
+  const date = new Date().toISOString().split('T')[0];
+  return {
+    filename: `focus0-sessions-${date}.json`,
+    content: JSON.stringify(createSessionBackup(sessions), null, 2),
+    mimeType: 'application/json'
+  };
+}
+
+// Trigger a browser download for generated content
+export function downloadFile({ filename, content, mimeType }: SessionExportFile): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,181 @@
+import { generateSessionId, StudySession, VideoBookmark, VideoNote, VideoProgress, VideoSegment } from './session';
+import { migrateSessionRecord } from './session-schema';
+
+export const SESSION_BACKUP_FORMAT = 'focus0-sessions';
+
+// Wrapper written by "Export all sessions"
+export interface SessionBackup {
+  format: typeof SESSION_BACKUP_FORMAT;
+  exportedAt: string;
+  sessions: StudySession[];
+}
+
+export type ImportConflictResolution = 'merge' | 'replace' | 'keepBoth';
+
+export interface ParsedSessionBackup {
+  sessions: StudySession[];
+  errors: string[];
+}
+
+export function createSessionBackup(sessions: StudySession[]): SessionBackup {
+  return {
+    format: SESSION_BACKUP_FORMAT,
+    exportedAt: new Date().toISOString(),
+    sessions
+  };
+}
+
+// Accepts a backup wrapper, a bare array of sessions, or a single session export
+export function parseSessionBackup(text: string): ParsedSessionBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { sessions: [], errors: ['File is not valid JSON'] };
+  }
+
+  let records: unknown[];
+  if (Array.isArray(data)) {
+    records = data;
+  } else if (typeof data === 'object' && data !== null && Array.isArray((data as SessionBackup).sessions)) {
+    records = (data as SessionBackup).sessions;
+  } else {
+    records = [data];
+  }
+
+  const sessions: StudySession[] = [];
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    try {
+      // Older backups are upgraded the same way stored sessions are
+      sessions.push(migrateSessionRecord(record));
+    } catch (error) {
+      const name = typeof record === 'object' && record !== null && typeof (record as StudySession).name === 'string'
+        ? ` ("${(record as StudySession).name}")`
+        : '';
+      errors.push(`Session ${index + 1}${name}: ${error instanceof Error ? error.message : 'invalid record'}`);
+    }
+  });
+
+  if (records.length === 0) {
+    errors.push('File does not contain any sessions');
+  }
+
+  return { sessions, errors };
+}
+
+function mergeVideoProgress(a: VideoProgress | undefined, b: VideoProgress | undefined): VideoProgress | undefined {
+  if (!a || !b) return a ?? b;
+
+  const latest = Date.parse(a.updatedAt) >= Date.parse(b.updatedAt) ? a : b;
+  const furthest = Math.max(a.furthest, b.furthest);
+  let status = latest.status;
+  if (a.status === 'completed' || b.status === 'completed') {
+    status = 'completed';
+  } else if (a.status === 'partial' || b.status === 'partial') {
+    status = 'partial';
+  }
+
+  return {
+    ...latest,
+    furthest,
+    duration: a.duration ?? b.duration,
+    status
+  };
+}
+
+// Same id on both sides: the more recently edited copy wins
+function mergeEdited<T extends { id: string; updatedAt: string }>(a: T[], b: T[]): T[] {
+  const byId = new Map<string, T>();
+
+  for (const item of [...a, ...b]) {
+    const existing = byId.get(item.id);
+    if (!existing || Date.parse(item.updatedAt) > Date.parse(existing.updatedAt)) {
+      byId.set(item.id, item);
+    }
+  }
+
+  return Array.from(byId.values());
+}
+
+// Segments aren't edited after saving, so the union by id is enough
+function mergeSegments(a: VideoSegment[], b: VideoSegment[]): VideoSegment[] {
+  const ids = new Set(a.map(segment => segment.id));
+  return [...a, ...b.filter(segment => !ids.has(segment.id))];
+}
+
+// Combine two copies of the same session: keeps the local structure, adds anything
+// only the import knows about, and takes the furthest progress from either side.
+export function mergeSessions(existing: StudySession, imported: StudySession): StudySession {
+  const videoIds = new Set(existing.videos.map(v => v.id));
+  const playlistIds = new Set(existing.playlists.map(p => p.id));
+
+  const progressIds = new Set([
+    ...Object.keys(existing.videoProgress ?? {}),
+    ...Object.keys(imported.videoProgress ?? {})
+  ]);
+  const videoProgress: Record<string, VideoProgress> = {};
+  progressIds.forEach(id => {
+    const merged = mergeVideoProgress(existing.videoProgress?.[id], imported.videoProgress?.[id]);
+    if (merged) videoProgress[id] = merged;
+  });
+
+  const addedVideos = imported.videos.filter(v => !videoIds.has(v.id));
+  // Added individual videos sit before the playlists, so keep pointing at the same video
+  const currentVideoIndex = existing.currentVideoIndex >= existing.videos.length
+    ? existing.currentVideoIndex + addedVideos.length
+    : existing.currentVideoIndex;
+
+  const sourceUrls = existing.sourceUrls || imported.sourceUrls
+    ? Array.from(new Set([...(existing.sourceUrls ?? []), ...(imported.sourceUrls ?? [])]))
+    : undefined;
+
+  return {
+    ...existing,
+    videos: [...existing.videos, ...addedVideos],
+    playlists: [...existing.playlists, ...imported.playlists.filter(p => !playlistIds.has(p.id))],
+    sourceUrls,
+    currentVideoIndex,
+    videoProgress,
+    notes: mergeEdited<VideoNote>(existing.notes ?? [], imported.notes ?? []),
+    bookmarks: mergeEdited<VideoBookmark>(existing.bookmarks ?? [], imported.bookmarks ?? []),
+    segments: mergeSegments(existing.segments ?? [], imported.segments ?? []),
+    // Local preferences win; the import only fills in what isn't set here
+    playbackPreferences: existing.playbackPreferences ?? imported.playbackPreferences,
+    videoPreferences: existing.videoPreferences || imported.videoPreferences
+      ? { ...imported.videoPreferences, ...existing.videoPreferences }
+      : undefined,
+    // Counters only grow, so the larger value is the more complete record
+    focusTime: Math.max(existing.focusTime, imported.focusTime),
+    totalStudyTime: Math.max(existing.totalStudyTime, imported.totalStudyTime),
+    completedPomodoros: Math.max(existing.completedPomodoros, imported.completedPomodoros)
+  };
+}
+
+// Work out which records to write for an import, given the chosen resolution per conflicting id
+export function resolveImportedSessions(
+  existing: StudySession[],
+  imported: StudySession[],
+  resolutions: Record<string, ImportConflictResolution>
+): StudySession[] {
+  const existingById = new Map(existing.map(s => [s.id, s]));
+
+  return imported.map(session => {
+    const current = existingById.get(session.id);
+    if (!current) return session;
+
+    switch (resolutions[session.id] ?? 'merge') {
+      case 'replace':
+        return session;
+      case 'keepBoth':
+        return {
+          ...session,
+          id: generateSessionId(),
+          name: `${session.name} (imported)`
+        };
+      case 'merge':
+        return mergeSessions(current, session);
+    }
+  });
+}
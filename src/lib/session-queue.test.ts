@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { createNewSession, getAllSessionVideos, StudySession } from './session';
+import {
+  appendPlaylistPage,
+  applyPlaylistUpdate,
+  keepCurrentVideo,
+  moveQueueVideo,
+  removeQueueVideo
+} from './session-queue';
+import { PlaylistInfo, VideoInfo } from './youtube';
+
+function video(id: string): VideoInfo {
+  return { id, url: `https://www.youtube.com/watch?v=${id}` };
+}
+
+function playlist(id: string, videoIds: string[]): PlaylistInfo {
+  return { id, url: `https://www.youtube.com/playlist?list=${id}`, videos: videoIds.map(video) };
+}
+
+function session(videoIds: string[], playlists: PlaylistInfo[] = [], currentVideoIndex = 0): StudySession {
+  return { ...createNewSession('Test', videoIds.map(video), playlists), currentVideoIndex };
+}
+
+function queueIds(s: StudySession): string[] {
+  return getAllSessionVideos(s).map(v => v.id);
+}
+
+describe('appendPlaylistPage', () => {
+  it('appends new videos and moves the current index past them', () => {
+    const before = session(['x'], [{ ...playlist('PL1', ['a']), nextPageToken: 'page2' }, playlist('PL2', ['b'])], 2);
+
+    const after = appendPlaylistPage(before, 'PL1', { videos: [video('a'), video('c')], nextPageToken: undefined, totalVideos: 2 });
+
+    expect(queueIds(after)).toEqual(['x', 'a', 'c', 'b']);
+    expect(after.currentVideoIndex).toBe(3);
+    expect(after.playlists[0]).toMatchObject({ nextPageToken: undefined, totalVideos: 2 });
+  });
+
+  it('skips videos taken out of the playlist by hand', () => {
+    const before = session([], [{ ...playlist('PL1', ['a']), removedVideoIds: ['b'] }]);
+    const after = appendPlaylistPage(before, 'PL1', { videos: [video('b'), video('c')] });
+
+    expect(queueIds(after)).toEqual(['a', 'c']);
+  });
+});
+
+describe('moveQueueVideo', () => {
+  it('reorders single videos and keeps playing the same video', () => {
+    const after = moveQueueVideo(session(['a', 'b', 'c'], [], 1), 0, 2);
+
+    expect(queueIds(after)).toEqual(['b', 'c', 'a']);
+    expect(after.currentVideoIndex).toBe(0);
+  });
+
+  it('records a single video dragged into a playlist, and forgets it when dragged back out', () => {
+    const before = session(['x', 'y'], [playlist('PL1', ['a', 'b'])]);
+
+    const moved = moveQueueVideo(before, 0, 2);
+    expect(queueIds(moved)).toEqual(['y', 'a', 'x', 'b']);
+    expect(moved.playlists[0].addedVideoIds).toEqual(['x']);
+
+    const back = moveQueueVideo(moved, 2, 0);
+    expect(back.videos.map(v => v.id)).toEqual(['x', 'y']);
+    expect(back.playlists[0].addedVideoIds).toBeUndefined();
+  });
+
+  it('records a playlist video dragged out to the single videos', () => {
+    const after = moveQueueVideo(session(['x'], [playlist('PL1', ['a', 'b'])]), 2, 0);
+
+    expect(after.videos.map(v => v.id)).toEqual(['b', 'x']);
+    expect(after.playlists[0].removedVideoIds).toEqual(['b']);
+  });
+});
+
+describe('removeQueueVideo', () => {
+  it('records a video removed from a playlist', () => {
+    const after = removeQueueVideo(session([], [playlist('PL1', ['a', 'b', 'c'])], 2), 1);
+
+    expect(queueIds(after)).toEqual(['a', 'c']);
+    expect(after.currentVideoIndex).toBe(1);
+    expect(after.playlists[0].removedVideoIds).toEqual(['b']);
+  });
+});
+
+describe('keepCurrentVideo', () => {
+  it('follows the current video to its new position', () => {
+    const before = session(['a', 'b', 'c'], [], 2);
+    const after = keepCurrentVideo(before, session(['c', 'a', 'b']));
+
+    expect(after.currentVideoIndex).toBe(0);
+  });
+
+  it('carries on with the next video when the current one is gone', () => {
+    const before = session(['a', 'b', 'c'], [], 1);
+    const after = keepCurrentVideo(before, session(['a', 'c']));
+
+    expect(after.currentVideoIndex).toBe(1);
+  });
+
+  it('matches the same occurrence of a video queued twice', () => {
+    const before = session(['a', 'b', 'a'], [], 2);
+    const after = keepCurrentVideo(before, session(['b', 'a', 'a']));
+
+    expect(after.currentVideoIndex).toBe(2);
+  });
+});
+
+describe('applyPlaylistUpdate', () => {
+  it('takes the latest videos but keeps manual additions and removals', () => {
+    let s = session(['x'], [playlist('PL1', ['a', 'b', 'c'])]);
+    s = moveQueueVideo(s, 0, 1); // x joins the playlist after a
+    s = removeQueueVideo(s, 3); // c is taken out
+
+    const latest = { ...playlist('PL1', ['a', 'b', 'c', 'd']), title: 'Updated' };
+    const updated = applyPlaylistUpdate(s, latest);
+
+    expect(queueIds(updated)).toEqual(['a', 'x', 'b', 'd']);
+    expect(updated.playlists[0].title).toBe('Updated');
+  });
+
+  it('keeps details the saved copy had and the current video', () => {
+    const saved = playlist('PL1', ['a', 'b']);
+    saved.videos[1] = { ...saved.videos[1], title: 'From the player' };
+
+    const updated = applyPlaylistUpdate(session([], [saved], 1), playlist('PL1', ['c', 'b']));
+
+    expect(updated.playlists[0].videos[1].title).toBe('From the player');
+    expect(updated.currentVideoIndex).toBe(1);
+  });
+});
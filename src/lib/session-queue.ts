@@ -0,0 +1,264 @@
+import { getPlaybackMode, getShuffledIndexes } from './playback-order';
+import { mergeManualPlaylistEdits } from './playlist-sync';
+import { getAllSessionVideos, isVideoUnplayable, StudySession } from './session';
+import { filterPlaylistPage, PlaylistInfo, PlaylistPage, VideoInfo } from './youtube';
+
+// Structural edits to a session's queue. The queue is played as one flat list (see
+// getAllSessionVideos), so anything that inserts or removes videos ahead of the current
+// one has to move currentVideoIndex along with it.
+
+// Where a playlist's videos start in the flat play order
+export function getPlaylistStartIndex(session: StudySession, playlistId: string): number {
+  let index = session.videos.length;
+  for (const playlist of session.playlists) {
+    if (playlist.id === playlistId) return index;
+    index += playlist.videos.length;
+  }
+  return -1;
+}
+
+// Append a freshly loaded page to a playlist, applying the playlist's filters. Videos already
+// in the playlist are skipped, since a page can be fetched twice when loading resumes from a
+// stale token, and so are videos taken out of it by hand.
+export function appendPlaylistPage(session: StudySession, playlistId: string, loaded: PlaylistPage): StudySession {
+  const playlist = session.playlists.find(p => p.id === playlistId);
+  if (!playlist) return session;
+
+  const page = filterPlaylistPage(loaded, playlist.filters);
+
+  const knownIds = new Set([...playlist.videos.map(video => video.id), ...(playlist.removedVideoIds ?? [])]);
+  const added = page.videos.filter(video => !knownIds.has(video.id));
+  const insertAt = getPlaylistStartIndex(session, playlistId) + playlist.videos.length;
+
+  return {
+    ...session,
+    playlists: session.playlists.map(p => p.id === playlistId
+      ? {
+          ...p,
+          videos: [...p.videos, ...added],
+          nextPageToken: page.nextPageToken,
+          totalVideos: page.totalVideos ?? p.totalVideos
+        }
+      : p
+    ),
+    currentVideoIndex: session.currentVideoIndex >= insertAt
+      ? session.currentVideoIndex + added.length
+      : session.currentVideoIndex
+  };
+}
+
+// Stop loading a playlist and keep the videos that arrived so far
+export function stopPlaylistLoading(session: StudySession, playlistId: string): StudySession {
+  return {
+    ...session,
+    playlists: session.playlists.map(p => p.id === playlistId ? { ...p, nextPageToken: undefined } : p)
+  };
+}
+
+// Playlists that still have pages to load
+export function getIncompletePlaylists(session: StudySession): PlaylistInfo[] {
+  return session.playlists.filter(playlist => playlist.nextPageToken !== undefined);
+}
+
+// A queue position tagged with where the video lives: -1 for single videos, otherwise the
+// index of its playlist. `index` is the position before the edit.
+interface QueueEntry {
+  video: VideoInfo;
+  group: number;
+  index: number;
+}
+
+function getQueueEntries(session: StudySession): QueueEntry[] {
+  return [
+    ...session.videos.map(video => ({ video, group: -1 })),
+    ...session.playlists.flatMap((playlist, group) => playlist.videos.map(video => ({ video, group })))
+  ].map((entry, index) => ({ ...entry, index }));
+}
+
+// Note videos moved into or taken out of a playlist by hand. Undoing an earlier edit just
+// forgets it, since the playlist then matches YouTube again.
+function recordPlaylistEdits(playlist: PlaylistInfo, addedIds: string[], removedIds: string[]): PlaylistInfo {
+  if (addedIds.length === 0 && removedIds.length === 0) return playlist;
+
+  const added = new Set(playlist.addedVideoIds);
+  const removed = new Set(playlist.removedVideoIds);
+  addedIds.forEach(id => removed.has(id) ? removed.delete(id) : added.add(id));
+  removedIds.forEach(id => added.has(id) ? added.delete(id) : removed.add(id));
+
+  return {
+    ...playlist,
+    addedVideoIds: added.size > 0 ? [...added] : undefined,
+    removedVideoIds: removed.size > 0 ? [...removed] : undefined
+  };
+}
+
+// Split an edited flat queue back into single videos and playlists. Groups must still be
+// contiguous and in their original order, or the flat order would change on the next read.
+function rebuildQueue(session: StudySession, entries: QueueEntry[]): StudySession {
+  const current = session.currentVideoIndex;
+  let currentVideoIndex = entries.findIndex(entry => entry.index === current);
+  // The current video was removed: carry on with the one after it
+  if (currentVideoIndex < 0) currentVideoIndex = entries.findIndex(entry => entry.index > current);
+  if (currentVideoIndex < 0) currentVideoIndex = Math.max(0, entries.length - 1);
+
+  return {
+    ...session,
+    videos: entries.filter(entry => entry.group === -1).map(entry => entry.video),
+    playlists: session.playlists.map((playlist, group) => {
+      const videos = entries.filter(entry => entry.group === group).map(entry => entry.video);
+      const before = new Set(playlist.videos.map(video => video.id));
+      const after = new Set(videos.map(video => video.id));
+
+      return recordPlaylistEdits(
+        { ...playlist, videos },
+        [...after].filter(id => !before.has(id)),
+        [...before].filter(id => !after.has(id))
+      );
+    }),
+    currentVideoIndex,
+    sourceUrls: undefined
+  };
+}
+
+// Move the video at queue position `from` to position `to`. It joins the single videos or the
+// playlist of the neighbour it lands next to, which a refresh keeps; refreshing does restore
+// YouTube's order within the playlist.
+export function moveQueueVideo(session: StudySession, from: number, to: number): StudySession {
+  const entries = getQueueEntries(session);
+  if (from === to || !entries[from] || !entries[to]) return session;
+
+  const [moved] = entries.splice(from, 1);
+  entries.splice(to, 0, moved);
+  moved.group = entries[from < to ? to - 1 : to + 1].group;
+
+  return rebuildQueue(session, entries);
+}
+
+// Move a video to right after the current one. In shuffle it also goes right after the
+// current video in the shuffled order, since that decides what plays next there.
+export function playQueueVideoNext(session: StudySession, index: number): StudySession {
+  const current = session.currentVideoIndex;
+  if (index === current) return session;
+
+  const to = index < current ? current : current + 1;
+  const moved = moveQueueVideo(session, index, to);
+  if (moved === session || getPlaybackMode(moved) !== 'shuffle') return moved;
+
+  const queue = getAllSessionVideos(moved);
+  const order = getShuffledIndexes(moved).filter(position => position !== to);
+  order.splice(order.indexOf(moved.currentVideoIndex) + 1, 0, to);
+  return { ...moved, shuffleOrder: order.map(position => queue[position].id) };
+}
+
+// Remove one queue position. A video queued only once goes through removeVideos, so
+// its recorded error goes with it; progress, notes and bookmarks are kept either way.
+export function removeQueueVideo(session: StudySession, index: number): StudySession {
+  const entries = getQueueEntries(session);
+  const removed = entries[index];
+  if (!removed) return session;
+
+  if (entries.filter(entry => entry.video.id === removed.video.id).length === 1) {
+    return removeVideos(session, new Set([removed.video.id]));
+  }
+  return rebuildQueue(session, entries.filter(entry => entry.index !== index));
+}
+
+// Add newly parsed videos and playlists. Single videos go after the existing single videos,
+// which is ahead of the playlists; playlists already in the session are skipped.
+export function addToQueue(
+  session: StudySession,
+  videos: VideoInfo[],
+  playlists: PlaylistInfo[],
+  sourceUrls: string[]
+): StudySession {
+  const playlistIds = new Set(session.playlists.map(playlist => playlist.id));
+  const addedPlaylists = playlists.filter(playlist => !playlistIds.has(playlist.id));
+
+  return {
+    ...session,
+    videos: [...session.videos, ...videos],
+    playlists: [...session.playlists, ...addedPlaylists],
+    // Parsing the old URLs followed by the new ones still rebuilds this queue, unless a playlist was skipped
+    sourceUrls: session.sourceUrls && addedPlaylists.length === playlists.length
+      ? [...session.sourceUrls, ...sourceUrls]
+      : undefined,
+    currentVideoIndex: session.currentVideoIndex >= session.videos.length
+      ? session.currentVideoIndex + videos.length
+      : session.currentVideoIndex
+  };
+}
+
+// Point currentVideoIndex at the same video after the queue changed shape. If that video is
+// gone, carry on with the next one from the old order that is still queued.
+export function keepCurrentVideo(before: StudySession, after: StudySession): StudySession {
+  const oldQueue = getAllSessionVideos(before);
+  const newQueue = getAllSessionVideos(after);
+  const index = before.currentVideoIndex;
+
+  for (let candidate = index; candidate < oldQueue.length; candidate++) {
+    const id = oldQueue[candidate].id;
+    // Match the same occurrence when a video is queued more than once
+    const occurrence = oldQueue.slice(0, candidate).filter(video => video.id === id).length;
+    const matches = newQueue.flatMap((video, i) => video.id === id ? [i] : []);
+
+    if (matches.length > 0) {
+      return { ...after, currentVideoIndex: matches[Math.min(occurrence, matches.length - 1)] };
+    }
+  }
+
+  return { ...after, currentVideoIndex: Math.max(0, Math.min(index, newQueue.length - 1)) };
+}
+
+// Replace a playlist's videos with the latest list from YouTube. Details the saved copy
+// already had (e.g. a title picked up by the player) are kept; progress is keyed by video
+// id, so it carries over to videos that are still there.
+export function applyPlaylistUpdate(session: StudySession, latest: PlaylistInfo): StudySession {
+  const updated: StudySession = {
+    ...session,
+    playlists: session.playlists.map(playlist => {
+      if (playlist.id !== latest.id) return playlist;
+
+      const saved = new Map(playlist.videos.map(video => [video.id, video]));
+      return {
+        ...playlist,
+        title: latest.title || playlist.title,
+        videos: mergeManualPlaylistEdits(playlist, latest.videos).map(video => ({ ...saved.get(video.id), ...video })),
+        totalVideos: latest.totalVideos,
+        nextPageToken: undefined
+      };
+    })
+  };
+
+  return keepCurrentVideo(session, updated);
+}
+
+// Videos the player reported as unplayable, once each even if queued more than once
+export function getUnplayableVideos(session: StudySession): VideoInfo[] {
+  const seen = new Set<string>();
+  return getAllSessionVideos(session).filter(video => {
+    if (seen.has(video.id) || !isVideoUnplayable(session, video.id)) return false;
+    seen.add(video.id);
+    return true;
+  });
+}
+
+// Drop every occurrence of the given videos, from single videos and playlists alike.
+// The original URLs no longer describe the queue, so sourceUrls is cleared.
+export function removeVideos(session: StudySession, videoIds: Set<string>): StudySession {
+  const keep = (video: { id: string }) => !videoIds.has(video.id);
+  const updated: StudySession = {
+    ...session,
+    videos: session.videos.filter(keep),
+    playlists: session.playlists.map(playlist => recordPlaylistEdits(
+      { ...playlist, videos: playlist.videos.filter(keep) },
+      [],
+      [...new Set(playlist.videos.filter(video => !keep(video)).map(video => video.id))]
+    )),
+    videoErrors: session.videoErrors && Object.fromEntries(
+      Object.entries(session.videoErrors).filter(([id]) => !videoIds.has(id))
+    ),
+    sourceUrls: undefined
+  };
+
+  return keepCurrentVideo(session, updated);
+}
@@ -0,0 +1,280 @@
+import { isValidPlaybackPreferences } from './playback-preferences';
+import { BOOKMARK_CATEGORIES, PLAYBACK_MODES, PomodoroSettings, SessionShare, StudySession, VideoBookmark, VideoError, VideoNote, VideoProgress, VideoSegment } from './session';
+import { isShareExpiry } from './share-format';
+import { Chapter, PlaylistInfo, VideoInfo } from './youtube';
+
+// Versioning, migration and validation for stored StudySession records.
+// Bump CURRENT_SCHEMA_VERSION and append a migration whenever the stored shape changes.
+
+type UnknownRecord = Record<string, unknown>;
+
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workDuration: 25,
+  shortBreakDuration: 5,
+  longBreakDuration: 15,
+  longBreakInterval: 4
+};
+
+// Raised when a record can't be brought up to the current schema
+export class SessionMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionMigrationError';
+  }
+}
+
+// migrations[n] upgrades a record from version n to version n + 1
+const migrations: ((record: UnknownRecord) => UnknownRecord)[] = [
+  // 0 -> 1: records saved before versioning. Fields were added over time
+  // (sourceUrls, per-video progress, notes), so fill in whatever is missing.
+  // Present-but-wrong values are left alone for validation to reject.
+  (record) => {
+    const withDefault = <T>(value: unknown, fallback: T) => value === undefined ? fallback : value;
+
+    return {
+      ...record,
+      name: withDefault(record.name, 'Untitled Session'),
+      createdAt: withDefault(record.createdAt, new Date(0).toISOString()),
+      playlists: Array.isArray(record.playlists)
+        ? record.playlists.map(p => isRecord(p) && p.videos === undefined ? { ...p, videos: [] } : p)
+        : withDefault(record.playlists, []),
+      videos: withDefault(record.videos, []),
+      currentVideoIndex: withDefault(record.currentVideoIndex, 0),
+      videoProgress: withDefault(record.videoProgress, {}),
+      notes: withDefault(record.notes, []),
+      focusTime: withDefault(record.focusTime, 0),
+      pomodoroSettings: isRecord(record.pomodoroSettings)
+        ? { ...DEFAULT_POMODORO_SETTINGS, ...record.pomodoroSettings }
+        : withDefault(record.pomodoroSettings, { ...DEFAULT_POMODORO_SETTINGS }),
+      isActive: withDefault(record.isActive, false),
+      totalStudyTime: withDefault(record.totalStudyTime, 0),
+      completedPomodoros: withDefault(record.completedPomodoros, 0),
+      schemaVersion: 1
+    };
+  }
+];
+
+const WATCH_STATUSES = ['unwatched', 'partial', 'completed'];
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return value === undefined || isFiniteNumber(value);
+}
+
+function isOptionalStringList(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+}
+
+function isValidChapter(value: unknown): value is Chapter {
+  return isRecord(value) &&
+    isFiniteNumber(value.start) &&
+    typeof value.title === 'string';
+}
+
+export function isValidVideoInfo(value: unknown): value is VideoInfo {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    value.id.length > 0 &&
+    typeof value.url === 'string' &&
+    isOptionalString(value.title) &&
+    isOptionalNumber(value.duration) &&
+    isOptionalString(value.thumbnail) &&
+    isOptionalNumber(value.start) &&
+    isOptionalNumber(value.end) &&
+    (value.chapters === undefined || (Array.isArray(value.chapters) && value.chapters.every(isValidChapter)));
+}
+
+export function isValidPlaylistInfo(value: unknown): value is PlaylistInfo {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.url === 'string' &&
+    isOptionalString(value.title) &&
+    Array.isArray(value.videos) &&
+    value.videos.every(isValidVideoInfo) &&
+    isOptionalStringList(value.addedVideoIds) &&
+    isOptionalStringList(value.removedVideoIds);
+}
+
+function isValidPomodoroSettings(value: unknown): value is PomodoroSettings {
+  return isRecord(value) &&
+    isFiniteNumber(value.workDuration) &&
+    isFiniteNumber(value.shortBreakDuration) &&
+    isFiniteNumber(value.longBreakDuration) &&
+    isFiniteNumber(value.longBreakInterval);
+}
+
+function isValidVideoProgress(value: unknown): value is VideoProgress {
+  return isRecord(value) &&
+    isFiniteNumber(value.position) &&
+    isFiniteNumber(value.furthest) &&
+    isOptionalNumber(value.duration) &&
+    typeof value.status === 'string' &&
+    WATCH_STATUSES.includes(value.status) &&
+    typeof value.updatedAt === 'string';
+}
+
+function isValidVideoNote(value: unknown): value is VideoNote {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.videoId === 'string' &&
+    isFiniteNumber(value.timestamp) &&
+    typeof value.content === 'string' &&
+    typeof value.createdAt === 'string' &&
+    typeof value.updatedAt === 'string';
+}
+
+function isValidVideoBookmark(value: unknown): value is VideoBookmark {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.videoId === 'string' &&
+    isFiniteNumber(value.timestamp) &&
+    isOptionalString(value.label) &&
+    (value.category === undefined || (BOOKMARK_CATEGORIES as readonly unknown[]).includes(value.category)) &&
+    typeof value.createdAt === 'string' &&
+    typeof value.updatedAt === 'string';
+}
+
+function isValidVideoSegment(value: unknown): value is VideoSegment {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.videoId === 'string' &&
+    typeof value.name === 'string' &&
+    isFiniteNumber(value.start) &&
+    isFiniteNumber(value.end) &&
+    typeof value.createdAt === 'string';
+}
+
+function isValidVideoError(value: unknown): value is VideoError {
+  return isRecord(value) &&
+    isFiniteNumber(value.code) &&
+    typeof value.detectedAt === 'string';
+}
+
+function isValidSessionShare(value: unknown): value is SessionShare {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.url === 'string' &&
+    typeof value.ownerToken === 'string' &&
+    (value.expiry === undefined || isShareExpiry(value.expiry)) &&
+    (value.expiresAt === null || isFiniteNumber(value.expiresAt)) &&
+    typeof value.updatedAt === 'string';
+}
+
+export function validateStudySession(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['not an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (value.schemaVersion !== CURRENT_SCHEMA_VERSION) errors.push(`"schemaVersion" must be ${CURRENT_SCHEMA_VERSION}`);
+  if (typeof value.id !== 'string' || value.id.length === 0) errors.push('"id" must be a non-empty string');
+  if (typeof value.name !== 'string') errors.push('"name" must be a string');
+  if (typeof value.createdAt !== 'string' || isNaN(Date.parse(value.createdAt))) {
+    errors.push('"createdAt" must be an ISO date string');
+  }
+  if (!Array.isArray(value.videos) || !value.videos.every(isValidVideoInfo)) {
+    errors.push('"videos" must be a list of videos with "id" and "url"');
+  }
+  if (!Array.isArray(value.playlists) || !value.playlists.every(isValidPlaylistInfo)) {
+    errors.push('"playlists" must be a list of playlists with "id", "url" and "videos"');
+  }
+  if (value.sourceUrls !== undefined &&
+      (!Array.isArray(value.sourceUrls) || !value.sourceUrls.every(url => typeof url === 'string'))) {
+    errors.push('"sourceUrls" must be a list of strings');
+  }
+  if (!isFiniteNumber(value.currentVideoIndex) || value.currentVideoIndex < 0) {
+    errors.push('"currentVideoIndex" must be a non-negative number');
+  }
+  if (value.videoProgress !== undefined &&
+      (!isRecord(value.videoProgress) || !Object.values(value.videoProgress).every(isValidVideoProgress))) {
+    errors.push('"videoProgress" has invalid entries');
+  }
+  if (value.videoErrors !== undefined &&
+      (!isRecord(value.videoErrors) || !Object.values(value.videoErrors).every(isValidVideoError))) {
+    errors.push('"videoErrors" has invalid entries');
+  }
+  if (value.autoSkipUnavailable !== undefined && typeof value.autoSkipUnavailable !== 'boolean') {
+    errors.push('"autoSkipUnavailable" must be a boolean');
+  }
+  if (value.notes !== undefined && (!Array.isArray(value.notes) || !value.notes.every(isValidVideoNote))) {
+    errors.push('"notes" has invalid entries');
+  }
+  if (value.segments !== undefined && (!Array.isArray(value.segments) || !value.segments.every(isValidVideoSegment))) {
+    errors.push('"segments" has invalid entries');
+  }
+  if (value.bookmarks !== undefined && (!Array.isArray(value.bookmarks) || !value.bookmarks.every(isValidVideoBookmark))) {
+    errors.push('"bookmarks" has invalid entries');
+  }
+  if (value.playbackPreferences !== undefined && !isValidPlaybackPreferences(value.playbackPreferences)) {
+    errors.push('"playbackPreferences" is invalid');
+  }
+  if (value.videoPreferences !== undefined &&
+      (!isRecord(value.videoPreferences) || !Object.values(value.videoPreferences).every(isValidPlaybackPreferences))) {
+    errors.push('"videoPreferences" has invalid entries');
+  }
+  if (value.playbackMode !== undefined && !(PLAYBACK_MODES as readonly unknown[]).includes(value.playbackMode)) {
+    errors.push(`"playbackMode" must be one of ${PLAYBACK_MODES.join(', ')}`);
+  }
+  if (value.shuffleOrder !== undefined &&
+      (!Array.isArray(value.shuffleOrder) || !value.shuffleOrder.every(id => typeof id === 'string'))) {
+    errors.push('"shuffleOrder" must be a list of video ids');
+  }
+  if (value.share !== undefined && !isValidSessionShare(value.share)) errors.push('"share" is invalid');
+  if (value.checkPlaylistsOnResume !== undefined && typeof value.checkPlaylistsOnResume !== 'boolean') {
+    errors.push('"checkPlaylistsOnResume" must be a boolean');
+  }
+  if (!isFiniteNumber(value.focusTime)) errors.push('"focusTime" must be a number');
+  if (!isValidPomodoroSettings(value.pomodoroSettings)) errors.push('"pomodoroSettings" is missing or invalid');
+  if (typeof value.isActive !== 'boolean') errors.push('"isActive" must be a boolean');
+  if (!isFiniteNumber(value.totalStudyTime)) errors.push('"totalStudyTime" must be a number');
+  if (!isFiniteNumber(value.completedPomodoros)) errors.push('"completedPomodoros" must be a number');
+
+  return errors;
+}
+
+export function isValidStudySession(value: unknown): value is StudySession {
+  return validateStudySession(value).length === 0;
+}
+
+export function getSchemaVersion(value: unknown): number {
+  if (!isRecord(value)) return 0;
+  return isFiniteNumber(value.schemaVersion) ? value.schemaVersion : 0;
+}
+
+// Upgrade a stored or imported record to the current schema, or throw SessionMigrationError
+export function migrateSessionRecord(value: unknown): StudySession {
+  if (!isRecord(value)) {
+    throw new SessionMigrationError('Record is not an object');
+  }
+
+  const version = getSchemaVersion(value);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new SessionMigrationError(`Record was saved by a newer version of Focus0 (schema ${version})`);
+  }
+
+  let record: UnknownRecord = value;
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+    record = migrations[v](record);
+  }
+
+  const errors = validateStudySession(record);
+  if (errors.length > 0) {
+    throw new SessionMigrationError(errors.join('; '));
+  }
+
+  return record as unknown as StudySession;
+}
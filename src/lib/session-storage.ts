@@ -0,0 +1,287 @@
+// IndexedDB persistence for study sessions (and the video transcripts they use).
+// Each session is its own record, so saving one session no longer rewrites every other one.
+// Falls back to the legacy localStorage array when IndexedDB isn't available (e.g. some private modes).
+
+const DB_NAME = 'focus0';
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions';
+const QUARANTINE_STORE = 'quarantine';
+const TRANSCRIPTS_STORE = 'transcripts';
+const LEGACY_STORAGE_KEY = 'focus0_sessions';
+const LEGACY_QUARANTINE_KEY = 'focus0_sessions_quarantine';
+
+// A stored record that could not be loaded, kept aside instead of being dropped
+export interface QuarantinedSessionRecord {
+  key?: number;
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function readLegacySessions(): unknown[] {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error reading legacy sessions:', error);
+    return [];
+  }
+}
+
+function readLegacyQuarantine(): QuarantinedSessionRecord[] {
+  try {
+    const saved = localStorage.getItem(LEGACY_QUARANTINE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+function quarantineEntry(record: unknown, reason: string): QuarantinedSessionRecord {
+  return { record, reason, quarantinedAt: new Date().toISOString() };
+}
+
+function hasStringId(record: unknown): record is { id: string } {
+  return typeof record === 'object' && record !== null && typeof (record as { id?: unknown }).id === 'string';
+}
+
+// One-time copy of the old localStorage array into the new store.
+// Runs inside the upgrade transaction, so it happens exactly once and atomically.
+function migrateLegacySessions(transaction: IDBTransaction): void {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+
+  const sessionsStore = transaction.objectStore(SESSIONS_STORE);
+  const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+
+  let legacySessions: unknown;
+  try {
+    legacySessions = JSON.parse(saved);
+  } catch {
+    legacySessions = null;
+  }
+
+  if (Array.isArray(legacySessions)) {
+    for (const session of legacySessions) {
+      if (hasStringId(session)) {
+        sessionsStore.put(session);
+      } else {
+        quarantineStore.add(quarantineEntry(session, 'Record has no session id'));
+      }
+    }
+  } else {
+    // Keep the raw text so nothing is lost even when the whole array is corrupt
+    quarantineStore.add(quarantineEntry(saved, 'Saved sessions were not a valid JSON list'));
+  }
+
+  transaction.addEventListener('complete', () => {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(QUARANTINE_STORE, { keyPath: 'key', autoIncrement: true });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(TRANSCRIPTS_STORE, { keyPath: 'videoId' });
+        }
+        // The sessions and quarantine stores have to exist before legacy data (and its rejects) can be copied in
+        if (event.oldVersion < 1) {
+          migrateLegacySessions(transaction);
+        }
+      };
+
+      // Tabs running older code don't close their connection for an upgrade, which holds this
+      // open until they do. Say so, or saving would just silently stop.
+      request.onblocked = () => {
+        alert('Focus0 is open in another tab that is blocking a storage upgrade. Close the other Focus0 tabs to keep saving your progress.');
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when a newer version opens in another tab; the next call here reopens it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        console.error('Error opening session database, falling back to localStorage:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+// Legacy localStorage backend, only used when IndexedDB can't be opened
+const legacyStorage = {
+  getAll(): unknown[] {
+    return readLegacySessions();
+  },
+
+  put(record: { id: string }): void {
+    const records = readLegacySessions() as { id: string }[];
+    const existingIndex = records.findIndex(r => r.id === record.id);
+
+    if (existingIndex >= 0) {
+      records[existingIndex] = record;
+    } else {
+      records.push(record);
+    }
+
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(records));
+  },
+
+  delete(id: string): void {
+    const records = readLegacySessions() as { id: string }[];
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(records.filter(r => r.id !== id)));
+  },
+
+  quarantine(id: string, entry: QuarantinedSessionRecord): void {
+    this.delete(id);
+    localStorage.setItem(LEGACY_QUARANTINE_KEY, JSON.stringify([...readLegacyQuarantine(), entry]));
+  }
+};
+
+export async function getAllSessionRecords(): Promise<unknown[]> {
+  const db = await openDatabase();
+  if (!db) return legacyStorage.getAll();
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+  return requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll());
+}
+
+export async function getSessionRecord(id: string): Promise<unknown | null> {
+  const db = await openDatabase();
+  if (!db) {
+    return legacyStorage.getAll().find(r => (r as { id?: string }).id === id) ?? null;
+  }
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+  const record = await requestToPromise(transaction.objectStore(SESSIONS_STORE).get(id));
+  return record ?? null;
+}
+
+export async function putSessionRecord(record: { id: string }): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    legacyStorage.put(record);
+    return;
+  }
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).put(record);
+  await transactionDone(transaction);
+}
+
+export async function deleteSessionRecord(id: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    legacyStorage.delete(id);
+    return;
+  }
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+// Move a record that can't be loaded out of the sessions store, atomically
+export async function quarantineSessionRecord(id: string, record: unknown, reason: string): Promise<void> {
+  const entry = quarantineEntry(record, reason);
+  const db = await openDatabase();
+  if (!db) {
+    legacyStorage.quarantine(id, entry);
+    return;
+  }
+
+  const transaction = db.transaction([SESSIONS_STORE, QUARANTINE_STORE], 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(id);
+  transaction.objectStore(QUARANTINE_STORE).add(entry);
+  await transactionDone(transaction);
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedSessionRecord[]> {
+  const db = await openDatabase();
+  if (!db) return readLegacyQuarantine();
+
+  const transaction = db.transaction(QUARANTINE_STORE, 'readonly');
+  return requestToPromise(transaction.objectStore(QUARANTINE_STORE).getAll());
+}
+
+// Transcripts are shared by every session with the same video. They can be large, so
+// without IndexedDB they are only kept in memory for the current visit.
+const memoryTranscripts = new Map<string, { videoId: string }>();
+
+export async function getTranscriptRecords(videoIds: string[]): Promise<unknown[]> {
+  const db = await openDatabase();
+  if (!db) {
+    return videoIds.map(id => memoryTranscripts.get(id)).filter(record => record !== undefined);
+  }
+
+  const transaction = db.transaction(TRANSCRIPTS_STORE, 'readonly');
+  const store = transaction.objectStore(TRANSCRIPTS_STORE);
+  const records = await Promise.all(videoIds.map(id => requestToPromise(store.get(id))));
+  return records.filter(record => record !== undefined);
+}
+
+export async function putTranscriptRecord(record: { videoId: string }): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryTranscripts.set(record.videoId, record);
+    return;
+  }
+
+  const transaction = db.transaction(TRANSCRIPTS_STORE, 'readwrite');
+  transaction.objectStore(TRANSCRIPTS_STORE).put(record);
+  await transactionDone(transaction);
+}
+
+export async function deleteTranscriptRecord(videoId: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryTranscripts.delete(videoId);
+    return;
+  }
+
+  const transaction = db.transaction(TRANSCRIPTS_STORE, 'readwrite');
+  transaction.objectStore(TRANSCRIPTS_STORE).delete(videoId);
+  await transactionDone(transaction);
+}
@@ -1,4 +1,21 @@
-import { PlaylistInfo, VideoInfo } from './youtube';
+import { PlaybackPreferences } from './playback-preferences';
+import {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_POMODORO_SETTINGS,
+  getSchemaVersion,
+  migrateSessionRecord
+} from './session-schema';
+import {
+  deleteSessionRecord,
+  getAllSessionRecords,
+  getQuarantinedRecords,
+  getSessionRecord,
+  putSessionRecord,
+  QuarantinedSessionRecord,
+  quarantineSessionRecord
+} from './session-storage';
+import { ShareExpiry } from './share-format';
+import { isPermanentPlayerError, PlaylistInfo, VideoInfo } from './youtube';
 
 export interface PomodoroSettings {
   workDuration: number; // in minutes
@@ -7,7 +24,73 @@ export interface PomodoroSettings {
   longBreakInterval: number; // after how many work sessions
 }
 
+export type VideoWatchStatus = 'unwatched' | 'partial' | 'completed';
+
+export interface VideoProgress {
+  position: number; // last playback position in seconds
+  furthest: number; // furthest point reached in seconds
+  duration?: number; // in seconds, as reported by the player
+  status: VideoWatchStatus;
+  updatedAt: string;
+}
+
+export interface VideoNote {
+  id: string;
+  videoId: string;
+  timestamp: number; // position in the video, in seconds
+  content: string; // Markdown
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const BOOKMARK_CATEGORIES = ['important', 'confusing', 'revisit'] as const;
+
+export type BookmarkCategory = typeof BOOKMARK_CATEGORIES[number];
+
+// A moment marked with one keypress; label and category can be added later
+export interface VideoBookmark {
+  id: string;
+  videoId: string;
+  timestamp: number; // position in the video, in seconds
+  label?: string;
+  category?: BookmarkCategory;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How the next video is picked when one ends (see playback-order)
+export const PLAYBACK_MODES = ['sequential', 'shuffle', 'repeat-one', 'repeat-all', 'unwatched-first'] as const;
+
+export type PlaybackMode = typeof PLAYBACK_MODES[number];
+
+// A named A-B loop saved from the player
+export interface VideoSegment {
+  id: string;
+  videoId: string;
+  name: string;
+  start: number; // in seconds
+  end: number;
+  createdAt: string;
+}
+
+// Recorded when the player reports an error for a video (see getPlayerErrorKind)
+export interface VideoError {
+  code: number;
+  detectedAt: string;
+}
+
+// The owner's handle on a link created from this session
+export interface SessionShare {
+  id: string;
+  url: string;
+  ownerToken: string; // secret; lets this browser update or revoke the share
+  expiry?: ShareExpiry; // last expiry picked; unset means the server default
+  expiresAt: number | null; // null never expires
+  updatedAt: string;
+}
+
 export interface StudySession {
+  schemaVersion: number; // see CURRENT_SCHEMA_VERSION in session-schema
   id: string;
   name: string;
   createdAt: string;
@@ -15,6 +98,18 @@ export interface StudySession {
   playlists: PlaylistInfo[];
   sourceUrls?: string[]; // Original URLs provided by user for sharing efficiency
   currentVideoIndex: number;
+  videoProgress?: Record<string, VideoProgress>; // keyed by video id
+  videoErrors?: Record<string, VideoError>; // keyed by video id
+  autoSkipUnavailable?: boolean; // move past videos the player can't play
+  notes?: VideoNote[];
+  segments?: VideoSegment[];
+  bookmarks?: VideoBookmark[];
+  playbackPreferences?: PlaybackPreferences; // overrides the global defaults for this session
+  videoPreferences?: Record<string, PlaybackPreferences>; // keyed by video id; overrides the session's
+  playbackMode?: PlaybackMode; // unset plays the queue in order
+  shuffleOrder?: string[]; // video ids, drawn when shuffle was turned on
+  share?: SessionShare;
+  checkPlaylistsOnResume?: boolean; // look for added/removed playlist videos when the session opens
   focusTime: number; // in seconds
   pomodoroSettings: PomodoroSettings;
   isActive: boolean;
@@ -22,12 +117,11 @@ export interface StudySession {
   completedPomodoros: number;
 }
 
-const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
-  workDuration: 25,
-  shortBreakDuration: 5,
-  longBreakDuration: 15,
-  longBreakInterval: 4
-};
+// A video counts as watched once this fraction of it has been played
+const COMPLETION_THRESHOLD = 0.9;
+
+// Positions closer than this to the end restart the video instead of resuming
+const RESUME_END_MARGIN = 10; // in seconds
 
 export function createNewSession(
   name: string,
@@ -36,6 +130,7 @@ export function createNewSession(
   sourceUrls?: string[]
 ): StudySession {
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     id: generateSessionId(),
     name,
     createdAt: new Date().toISOString(),
@@ -43,6 +138,8 @@ export function createNewSession(
     playlists,
     sourceUrls,
     currentVideoIndex: 0,
+    videoProgress: {},
+    notes: [],
     focusTime: 0,
     pomodoroSettings: { ...DEFAULT_POMODORO_SETTINGS },
     isActive: false,
@@ -51,44 +148,95 @@ export function createNewSession(
   };
 }
 
+// Flat play order: individual videos first, then each playlist's videos
+export function getAllSessionVideos(session: StudySession): VideoInfo[] {
+  return [
+    ...session.videos,
+    ...session.playlists.flatMap(p => p.videos)
+  ];
+}
+
 export function generateSessionId(): string {
   return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-export function saveSession(session: StudySession): void {
-  const sessions = getSavedSessions();
-  const existingIndex = sessions.findIndex(s => s.id === session.id);
-  
-  if (existingIndex >= 0) {
-    sessions[existingIndex] = session;
-  } else {
-    sessions.push(session);
+export function generateNoteId(): string {
+  return `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function generateBookmarkId(): string {
+  return `bookmark_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function generateSegmentId(): string {
+  return `segment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export async function saveSession(session: StudySession): Promise<void> {
+  await putSessionRecord(session);
+}
+
+// Migrate a stored record to the current schema, persisting the upgrade.
+// Records that can't be migrated are quarantined so one bad record can't break the list.
+async function loadStoredSession(record: unknown): Promise<StudySession | null> {
+  const id = (record as { id?: unknown } | null)?.id;
+
+  try {
+    const session = migrateSessionRecord(record);
+    if (getSchemaVersion(record) !== session.schemaVersion) {
+      await putSessionRecord(session);
+    }
+    return session;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Quarantining saved session ${String(id)}:`, reason);
+    if (typeof id === 'string') {
+      await quarantineSessionRecord(id, record, reason);
+    }
+    return null;
   }
-  
-  localStorage.setItem('focus0_sessions', JSON.stringify(sessions));
 }
 
-export function getSavedSessions(): StudySession[] {
+export async function getSavedSessions(): Promise<StudySession[]> {
   if (typeof window === 'undefined') return [];
   
   try {
-    const saved = localStorage.getItem('focus0_sessions');
-    return saved ? JSON.parse(saved) : [];
+    const records = await getAllSessionRecords();
+    const sessions = (await Promise.all(records.map(loadStoredSession)))
+      .filter((session): session is StudySession => session !== null);
+    // Keep the oldest-first order the list had when it was a single array
+    return sessions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   } catch (error) {
     console.error('Error loading saved sessions:', error);
     return [];
   }
 }
 
-export function getSessionById(sessionId: string): StudySession | null {
-  const sessions = getSavedSessions();
-  return sessions.find(s => s.id === sessionId) || null;
+export async function getSessionById(sessionId: string): Promise<StudySession | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const record = await getSessionRecord(sessionId);
+    return record ? await loadStoredSession(record) : null;
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return null;
+  }
 }
 
-export function deleteSession(id: string): void {
-  const sessions = getSavedSessions();
-  const filtered = sessions.filter(s => s.id !== id);
-  localStorage.setItem('focus0_sessions', JSON.stringify(filtered));
+export async function getQuarantinedSessions(): Promise<QuarantinedSessionRecord[]> {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    return await getQuarantinedRecords();
+  } catch (error) {
+    console.error('Error loading quarantined sessions:', error);
+    return [];
+  }
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await deleteSessionRecord(id);
 }
 
 export function createSessionShareLink(sessionId: string): string {
@@ -96,13 +244,99 @@ export function createSessionShareLink(sessionId: string): string {
   return `${baseUrl}/session/${sessionId}`;
 }
 
-export function updateSessionFocusTime(sessionId: string, additionalTime: number): void {
-  const sessions = getSavedSessions();
-  const session = sessions.find(s => s.id === sessionId);
+export async function updateSessionFocusTime(sessionId: string, additionalTime: number): Promise<void> {
+  const session = await getSessionById(sessionId);
   
   if (session) {
     session.focusTime += additionalTime;
     session.totalStudyTime += additionalTime;
-    saveSession(session);
+    await saveSession(session);
+  }
+}
+
+export function getVideoProgress(session: StudySession, videoId: string): VideoProgress | undefined {
+  return session.videoProgress?.[videoId];
+}
+
+export function getVideoWatchStatus(session: StudySession, videoId: string): VideoWatchStatus {
+  return getVideoProgress(session, videoId)?.status ?? 'unwatched';
+}
+
+export function getVideoError(session: StudySession, videoId: string): VideoError | undefined {
+  return session.videoErrors?.[videoId];
+}
+
+// True once the player has said this video will never play here (deleted, private, no embedding)
+export function isVideoUnplayable(session: StudySession, videoId: string): boolean {
+  const error = getVideoError(session, videoId);
+  return error !== undefined && isPermanentPlayerError(error.code);
+}
+
+// Fraction of the video watched so far (0-1), based on the furthest point reached
+export function getVideoWatchedFraction(progress: VideoProgress | undefined, fallbackDuration?: number): number {
+  if (!progress) return 0;
+  if (progress.status === 'completed') return 1;
+
+  const duration = progress.duration || fallbackDuration || 0;
+  if (duration <= 0) return 0;
+
+  return Math.min(1, progress.furthest / duration);
+}
+
+export function recordVideoProgress(
+  previous: VideoProgress | undefined,
+  position: number,
+  duration: number
+): VideoProgress {
+  const furthest = Math.max(previous?.furthest ?? 0, position);
+  const reachedEnd = duration > 0 && furthest >= duration * COMPLETION_THRESHOLD;
+
+  let status: VideoWatchStatus = previous?.status ?? 'unwatched';
+  if (reachedEnd) {
+    status = 'completed';
+  } else if (status === 'unwatched' && position > 0) {
+    status = 'partial';
   }
+
+  return {
+    position,
+    furthest,
+    duration: duration > 0 ? duration : previous?.duration,
+    status,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+export function markVideoCompleted(previous: VideoProgress | undefined, duration?: number): VideoProgress {
+  const finalDuration = duration || previous?.duration;
+
+  return {
+    position: finalDuration ?? previous?.position ?? 0,
+    furthest: finalDuration ?? previous?.furthest ?? 0,
+    duration: finalDuration,
+    status: 'completed',
+    updatedAt: new Date().toISOString()
+  };
+}
+
+// Where playback should start when a video is opened again
+export function getResumePosition(progress: VideoProgress | undefined): number {
+  if (!progress || progress.position <= 0) return 0;
+
+  const duration = progress.duration ?? 0;
+  if (duration > 0 && progress.position >= duration - RESUME_END_MARGIN) {
+    return 0;
+  }
+
+  return Math.floor(progress.position);
+}
+
+// Where a queue entry starts playing: the saved position if it is inside the entry's
+// start/end range, otherwise the start of that range
+export function getStartPosition(video: VideoInfo, progress: VideoProgress | undefined): number {
+  const start = video.start ?? 0;
+  const resume = getResumePosition(progress);
+  const endsBefore = video.end !== undefined && resume >= video.end - RESUME_END_MARGIN;
+
+  return resume > start && !endsBefore ? resume : start;
 }
@@ -0,0 +1,107 @@
+import { SessionShare } from './session';
+import { ShareExpiry, SharePayload } from './share-format';
+
+// Browser-side calls to /api/v1/shares
+
+export interface CreatedShare {
+  id: string;
+  shareUrl: string;
+  ownerToken: string;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+export interface FetchedShare {
+  id: string;
+  payload: SharePayload;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number | null;
+}
+
+// Thrown for non-2xx responses, carrying the server's error message
+export class ShareRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ShareRequestError';
+  }
+}
+
+async function readError(response: Response): Promise<ShareRequestError> {
+  const body = await response.json().catch(() => null);
+  return new ShareRequestError(body?.error || `Share request failed: ${response.status}`, response.status);
+}
+
+export async function createShare(payload: SharePayload, expiresIn?: ShareExpiry): Promise<CreatedShare> {
+  const response = await fetch('/api/v1/shares', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ payload, expiresIn }),
+  });
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  return response.json();
+}
+
+// What the owner keeps on their StudySession after creating a share
+export function toSessionShare(created: CreatedShare, expiry?: ShareExpiry): SessionShare {
+  return {
+    id: created.id,
+    url: created.shareUrl,
+    ownerToken: created.ownerToken,
+    expiry,
+    expiresAt: created.expiresAt,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+// `search` is the shared page's query string, so old ?sources= / ?data= links still resolve.
+// A revoked share throws a ShareRequestError with status 410.
+export async function fetchShare(id: string, search = ''): Promise<FetchedShare | null> {
+  const response = await fetch(`/api/v1/shares/${encodeURIComponent(id)}${search}`);
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  return response.json();
+}
+
+// Owner-only: replace the shared collection and/or change the expiry
+export async function updateShare(
+  id: string,
+  ownerToken: string,
+  changes: { payload?: SharePayload; expiresIn?: ShareExpiry }
+): Promise<FetchedShare> {
+  const response = await fetch(`/api/v1/shares/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${ownerToken}`,
+    },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  return response.json();
+}
+
+// Owner-only: take the link down for good
+export async function revokeShare(id: string, ownerToken: string): Promise<void> {
+  const response = await fetch(`/api/v1/shares/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${ownerToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+}
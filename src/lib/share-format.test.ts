@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSharePayload,
+  expandSharePayload,
+  isShareExpiry,
+  parseSharePayload,
+  SHARE_MAX_VIDEOS,
+  SHARE_NAME_MAX_LENGTH,
+  SHARE_PAYLOAD_VERSION,
+  SharePayloadError
+} from './share-format';
+
+const validPayload = {
+  version: SHARE_PAYLOAD_VERSION,
+  name: 'Linear Algebra',
+  videos: [{ id: 'abc', title: 'Vectors', duration: 300, start: 60, end: 240 }],
+  playlists: [{ id: 'PL1', title: 'Matrices', videos: [{ id: 'def' }] }]
+};
+
+describe('parseSharePayload', () => {
+  it('accepts a valid payload', () => {
+    expect(parseSharePayload(validPayload)).toEqual({
+      version: SHARE_PAYLOAD_VERSION,
+      name: 'Linear Algebra',
+      sourceUrls: undefined,
+      videos: [{ id: 'abc', title: 'Vectors', duration: 300, start: 60, end: 240 }],
+      playlists: [{
+        id: 'PL1',
+        title: 'Matrices',
+        videos: [{ id: 'def', title: undefined, duration: undefined, start: undefined, end: undefined }]
+      }]
+    });
+  });
+
+  it('drops unknown fields and invalid times', () => {
+    const payload = parseSharePayload({
+      ...validPayload,
+      progress: { abc: 'completed' },
+      videos: [{ id: 'abc', notes: 'private', duration: -1, start: 'soon' }],
+      playlists: []
+    });
+
+    expect(payload).not.toHaveProperty('progress');
+    expect(payload.videos).toEqual([{ id: 'abc', title: undefined, duration: undefined, start: undefined, end: undefined }]);
+  });
+
+  it('trims the name, truncates it and falls back to a default', () => {
+    expect(parseSharePayload({ ...validPayload, name: '  Calculus  ' }).name).toBe('Calculus');
+    expect(parseSharePayload({ ...validPayload, name: 'x'.repeat(500) }).name).toHaveLength(SHARE_NAME_MAX_LENGTH);
+    expect(parseSharePayload({ ...validPayload, name: '   ' }).name).toBe('Study Session');
+    expect(parseSharePayload({ ...validPayload, name: undefined }).name).toBe('Study Session');
+  });
+
+  it('accepts source URLs without a snapshot', () => {
+    const payload = parseSharePayload({
+      version: SHARE_PAYLOAD_VERSION,
+      sourceUrls: ['https://www.youtube.com/watch?v=abc'],
+      videos: [],
+      playlists: []
+    });
+
+    expect(payload.sourceUrls).toEqual(['https://www.youtube.com/watch?v=abc']);
+  });
+
+  it.each([
+    ['a non-object', 'payload', 'Share payload must be an object'],
+    ['an array', [], 'Share payload must be an object'],
+    ['another version', { ...validPayload, version: 2 }, 'Unsupported share payload version: 2'],
+    ['missing lists', { version: SHARE_PAYLOAD_VERSION, videos: [] }, 'Share payload needs "videos" and "playlists" lists'],
+    ['non-string source URLs', { ...validPayload, sourceUrls: [1] }, '"sourceUrls" must be a list of strings'],
+    ['a video without an id', { ...validPayload, videos: [{ title: 'No id' }] }, 'Every video needs an "id"'],
+    ['a playlist without videos', { ...validPayload, playlists: [{ id: 'PL1' }] }, 'Every playlist needs an "id" and a "videos" list'],
+    ['no videos', { version: SHARE_PAYLOAD_VERSION, videos: [], playlists: [] }, 'At least one video or playlist is required']
+  ])('rejects %s', (_, value, message) => {
+    expect(() => parseSharePayload(value)).toThrow(new SharePayloadError(message));
+  });
+
+  it('rejects more than SHARE_MAX_VIDEOS videos across videos and playlists', () => {
+    const videos = Array.from({ length: SHARE_MAX_VIDEOS }, (_, i) => ({ id: `v${i}` }));
+
+    expect(parseSharePayload({ ...validPayload, videos, playlists: [] }).videos).toHaveLength(SHARE_MAX_VIDEOS);
+    expect(() => parseSharePayload({ ...validPayload, videos })).toThrow(SharePayloadError);
+  });
+});
+
+describe('parseSharePayload chapters', () => {
+  it('keeps valid chapters and drops malformed ones', () => {
+    const payload = parseSharePayload({
+      ...validPayload,
+      videos: [{
+        id: 'abc',
+        chapters: [{ start: 0, title: 'Intro' }, { start: -5, title: 'Bad' }, { title: 'No start' }, { start: 90, title: 'Proofs' }]
+      }],
+      playlists: []
+    });
+
+    expect(payload.videos[0].chapters).toEqual([{ start: 0, title: 'Intro' }, { start: 90, title: 'Proofs' }]);
+  });
+
+  it('leaves chapters out when none are valid', () => {
+    const payload = parseSharePayload({ ...validPayload, videos: [{ id: 'abc', chapters: 'Intro' }], playlists: [] });
+    expect(payload.videos[0].chapters).toBeUndefined();
+  });
+});
+
+describe('isShareExpiry', () => {
+  it('only accepts the listed options', () => {
+    expect(isShareExpiry('7d')).toBe(true);
+    expect(isShareExpiry('never')).toBe(true);
+    expect(isShareExpiry('2d')).toBe(false);
+    expect(isShareExpiry('toString')).toBe(false);
+    expect(isShareExpiry(7)).toBe(false);
+  });
+});
+
+describe('createSharePayload / expandSharePayload', () => {
+  it('round-trips a video collection through the payload format', () => {
+    const videos = [{
+      id: 'abc',
+      url: 'https://www.youtube.com/watch?v=abc',
+      title: 'Vectors',
+      duration: 300,
+      start: 60,
+      chapters: [{ start: 0, title: 'Intro' }, { start: 120, title: 'Span' }]
+    }];
+    const playlists = [{
+      id: 'PL1',
+      url: 'https://www.youtube.com/playlist?list=PL1',
+      title: 'Matrices',
+      videos: [{ id: 'def', url: 'https://www.youtube.com/watch?v=def&list=PL1', title: 'Rank' }]
+    }];
+
+    const payload = parseSharePayload(JSON.parse(JSON.stringify(createSharePayload('Linear Algebra', videos, playlists, []))));
+    expect(payload.sourceUrls).toBeUndefined();
+
+    const expanded = expandSharePayload(payload);
+    expect(expanded.videos).toEqual([{ ...videos[0], end: undefined }]);
+    expect(expanded.playlists).toEqual([{
+      ...playlists[0],
+      videos: [{ ...playlists[0].videos[0], duration: undefined, start: undefined, end: undefined, chapters: undefined }]
+    }]);
+  });
+});
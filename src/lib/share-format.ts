@@ -0,0 +1,213 @@
+import { Chapter, PlaylistInfo, VideoInfo } from './youtube';
+
+// The share payload is what /api/v1/shares stores and returns. It only describes the
+// video collection; progress, notes and focus stats never leave the owner's browser.
+//
+// Version 1:
+//   {
+//     "version": 1,
+//     "name": "Linear Algebra",             // at most SHARE_NAME_MAX_LENGTH characters
+//     "sourceUrls": ["https://..."],        // optional, the URLs the session was built from
+//     "videos": [{ "id": "abc", "title": "...", "duration": 300, "start": 60, "end": 240,
+//                  "chapters": [{ "start": 0, "title": "Intro" }] }],
+//     "playlists": [{ "id": "PL...", "title": "...", "videos": [...] }]
+//   }
+//
+// "start"/"end" are optional and limit playback to part of a video (in seconds). "chapters" is
+// optional too, at most CHAPTERS_MAX per video.
+// Viewers play the videos/playlists snapshot as-is. A payload with no snapshot but with
+// sourceUrls (old "?sources=" links) is resolved from the URLs instead.
+// Bump SHARE_PAYLOAD_VERSION and teach parseSharePayload the old shape when this changes.
+
+export const SHARE_PAYLOAD_VERSION = 1;
+export const SHARE_NAME_MAX_LENGTH = 200;
+export const SHARE_MAX_VIDEOS = 2000;
+const TITLE_MAX_LENGTH = 300;
+const CHAPTERS_MAX = 100;
+
+// How long a share stays valid, picked by its owner. Shares created without one use SHARE_TTL_DAYS.
+export const SHARE_EXPIRY_DAYS = {
+  '1d': 1,
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  never: null
+} as const;
+
+export type ShareExpiry = keyof typeof SHARE_EXPIRY_DAYS;
+
+export function isShareExpiry(value: unknown): value is ShareExpiry {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SHARE_EXPIRY_DAYS, value);
+}
+
+export interface SharedVideo {
+  id: string;
+  title?: string;
+  duration?: number;
+  start?: number;
+  end?: number;
+  chapters?: Chapter[];
+}
+
+export interface SharedPlaylist {
+  id: string;
+  title?: string;
+  videos: SharedVideo[];
+}
+
+export interface SharePayload {
+  version: typeof SHARE_PAYLOAD_VERSION;
+  name: string;
+  sourceUrls?: string[];
+  videos: SharedVideo[];
+  playlists: SharedPlaylist[];
+}
+
+// Raised when a payload sent to or read from the share API doesn't match the format
+export class SharePayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SharePayloadError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseOptionalSeconds(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+// Chapters are a nice-to-have, so malformed ones are dropped rather than rejecting the payload
+function parseSharedChapters(value: unknown): Chapter[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const chapters = value.slice(0, CHAPTERS_MAX).flatMap(chapter => {
+    if (!isRecord(chapter) || typeof chapter.title !== 'string') return [];
+    const start = parseOptionalSeconds(chapter.start);
+    return start === undefined ? [] : [{ start, title: chapter.title.substring(0, TITLE_MAX_LENGTH) }];
+  });
+  return chapters.length > 0 ? chapters : undefined;
+}
+
+function parseSharedVideo(value: unknown): SharedVideo {
+  if (!isRecord(value) || typeof value.id !== 'string' || value.id.length === 0) {
+    throw new SharePayloadError('Every video needs an "id"');
+  }
+
+  return {
+    id: value.id,
+    title: typeof value.title === 'string' ? value.title.substring(0, TITLE_MAX_LENGTH) : undefined,
+    duration: parseOptionalSeconds(value.duration),
+    start: parseOptionalSeconds(value.start),
+    end: parseOptionalSeconds(value.end),
+    chapters: parseSharedChapters(value.chapters)
+  };
+}
+
+function parseSharedPlaylist(value: unknown): SharedPlaylist {
+  if (!isRecord(value) || typeof value.id !== 'string' || value.id.length === 0 || !Array.isArray(value.videos)) {
+    throw new SharePayloadError('Every playlist needs an "id" and a "videos" list');
+  }
+
+  return {
+    id: value.id,
+    title: typeof value.title === 'string' ? value.title.substring(0, TITLE_MAX_LENGTH) : undefined,
+    videos: value.videos.map(parseSharedVideo)
+  };
+}
+
+// Check and normalise a payload, dropping any fields the format doesn't know about
+export function parseSharePayload(value: unknown): SharePayload {
+  if (!isRecord(value)) {
+    throw new SharePayloadError('Share payload must be an object');
+  }
+  if (value.version !== SHARE_PAYLOAD_VERSION) {
+    throw new SharePayloadError(`Unsupported share payload version: ${String(value.version)}`);
+  }
+  if (!Array.isArray(value.videos) || !Array.isArray(value.playlists)) {
+    throw new SharePayloadError('Share payload needs "videos" and "playlists" lists');
+  }
+  if (value.sourceUrls !== undefined &&
+      (!Array.isArray(value.sourceUrls) || !value.sourceUrls.every(url => typeof url === 'string'))) {
+    throw new SharePayloadError('"sourceUrls" must be a list of strings');
+  }
+
+  const payload: SharePayload = {
+    version: SHARE_PAYLOAD_VERSION,
+    name: typeof value.name === 'string' && value.name.trim()
+      ? value.name.trim().substring(0, SHARE_NAME_MAX_LENGTH)
+      : 'Study Session',
+    sourceUrls: value.sourceUrls as string[] | undefined,
+    videos: value.videos.map(parseSharedVideo),
+    playlists: value.playlists.map(parseSharedPlaylist)
+  };
+
+  const videoCount = payload.videos.length + payload.playlists.reduce((sum, p) => sum + p.videos.length, 0);
+  if (videoCount === 0 && !payload.sourceUrls?.length) {
+    throw new SharePayloadError('At least one video or playlist is required');
+  }
+  if (videoCount > SHARE_MAX_VIDEOS) {
+    throw new SharePayloadError(`A share can hold at most ${SHARE_MAX_VIDEOS} videos`);
+  }
+
+  return payload;
+}
+
+function toSharedVideo(video: VideoInfo): SharedVideo {
+  return {
+    id: video.id,
+    title: video.title,
+    duration: video.duration,
+    start: video.start,
+    end: video.end,
+    chapters: video.chapters
+  };
+}
+
+export function createSharePayload(
+  name: string,
+  videos: VideoInfo[],
+  playlists: PlaylistInfo[],
+  sourceUrls?: string[]
+): SharePayload {
+  return {
+    version: SHARE_PAYLOAD_VERSION,
+    name,
+    sourceUrls: sourceUrls?.length ? sourceUrls : undefined,
+    videos: videos.map(toSharedVideo),
+    playlists: playlists.map(p => ({ id: p.id, title: p.title, videos: p.videos.map(toSharedVideo) }))
+  };
+}
+
+function toVideoInfo(video: SharedVideo, playlistId?: string): VideoInfo {
+  return {
+    id: video.id,
+    url: `https://www.youtube.com/watch?v=${video.id}${playlistId ? `&list=${playlistId}` : ''}`,
+    title: video.title,
+    duration: video.duration,
+    start: video.start,
+    end: video.end,
+    chapters: video.chapters
+  };
+}
+
+// Turn the snapshot back into the video collection a StudySession is built from
+export function expandSharePayload(payload: SharePayload): { videos: VideoInfo[]; playlists: PlaylistInfo[] } {
+  return {
+    videos: payload.videos.map(v => toVideoInfo(v)),
+    playlists: payload.playlists.map(p => ({
+      id: p.id,
+      url: `https://www.youtube.com/playlist?list=${p.id}`,
+      title: p.title,
+      videos: p.videos.map(v => toVideoInfo(v, p.id))
+    }))
+  };
+}
+
+export function hasShareSnapshot(payload: SharePayload): boolean {
+  return payload.videos.length > 0 || payload.playlists.length > 0;
+}
@@ -0,0 +1,86 @@
+import { gzipSync } from 'zlib';
+import { describe, expect, it, vi } from 'vitest';
+import { SHARE_PAYLOAD_VERSION } from './share-format';
+import { decodeLegacyShareParams, legacySessionToPayload } from './share-legacy';
+
+// How old self-contained links encoded their session
+function encodeData(value: unknown): string {
+  return gzipSync(JSON.stringify(value)).toString('base64url');
+}
+
+describe('decodeLegacyShareParams', () => {
+  it('reads ?sources= links into a payload resolved from the URLs', () => {
+    const params = new URLSearchParams({
+      sources: 'https://www.youtube.com/watch?v=abc| https://www.youtube.com/playlist?list=PL1 |',
+      name: 'Physics'
+    });
+
+    expect(decodeLegacyShareParams(params)).toEqual({
+      version: SHARE_PAYLOAD_VERSION,
+      name: 'Physics',
+      sourceUrls: ['https://www.youtube.com/watch?v=abc', 'https://www.youtube.com/playlist?list=PL1'],
+      videos: [],
+      playlists: []
+    });
+  });
+
+  it('names ?sources= links without a name', () => {
+    const params = new URLSearchParams({ sources: 'https://youtu.be/abc' });
+    expect(decodeLegacyShareParams(params)?.name).toBe('Shared Study Session');
+  });
+
+  it('ignores ?sources= with no URLs', () => {
+    expect(decodeLegacyShareParams(new URLSearchParams({ sources: ' | ' }))).toBeNull();
+  });
+
+  it('reads ?data= links written with short keys', () => {
+    const data = encodeData({
+      n: 'Chemistry',
+      v: [{ i: 'abc', t: 'Atoms' }],
+      p: [{ i: 'PL1', t: 'Bonds', v: [{ i: 'def' }] }]
+    });
+
+    expect(decodeLegacyShareParams(new URLSearchParams({ data }))).toEqual({
+      version: SHARE_PAYLOAD_VERSION,
+      name: 'Chemistry',
+      sourceUrls: undefined,
+      videos: [{ id: 'abc', title: 'Atoms' }],
+      playlists: [{ id: 'PL1', title: 'Bonds', videos: [{ id: 'def', title: undefined }] }]
+    });
+  });
+
+  it('reads ?data= links written with long keys', () => {
+    const data = encodeData({ name: 'Biology', videos: [{ id: 'abc', title: 'Cells' }], playlists: [] });
+
+    expect(decodeLegacyShareParams(new URLSearchParams({ data }))).toMatchObject({
+      name: 'Biology',
+      videos: [{ id: 'abc', title: 'Cells' }]
+    });
+  });
+
+  it('returns null for ?data= that does not decode', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(decodeLegacyShareParams(new URLSearchParams({ data: 'not-gzip' }))).toBeNull();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('returns null without either parameter', () => {
+    expect(decodeLegacyShareParams(new URLSearchParams({ name: 'Physics' }))).toBeNull();
+  });
+});
+
+describe('legacySessionToPayload', () => {
+  it('skips videos and playlists without an id', () => {
+    const payload = legacySessionToPayload({ videos: [{ title: 'No id' }, { id: 'abc' }], playlists: [{ t: 'No id' }] });
+
+    expect(payload?.videos).toEqual([{ id: 'abc', title: undefined }]);
+    expect(payload?.playlists).toEqual([]);
+  });
+
+  it('returns null for a session with nothing to play', () => {
+    expect(legacySessionToPayload({ name: 'Empty', videos: [], playlists: [] })).toBeNull();
+    expect(legacySessionToPayload('session')).toBeNull();
+  });
+});
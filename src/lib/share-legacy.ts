@@ -0,0 +1,84 @@
+import { gunzipSync } from 'zlib';
+import { SHARE_PAYLOAD_VERSION, SharedVideo, SharePayload } from './share-format';
+
+// Server-only compatibility for share links made before /api/v1/shares:
+//   /session/<id>?sources=<url>|<url>&name=<name>   source URL links
+//   /session/<id>?data=<gzip+base64url JSON>        self-contained links (short or long keys)
+//   /session/<id>                                  records in the old "sessions" / "source-sessions" store namespaces
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Videos were written either as { i, t } or as { id, title }
+function decodeLegacyVideo(value: unknown): SharedVideo | null {
+  if (!isRecord(value)) return null;
+  const id = asString(value.i) ?? asString(value.id);
+  return id ? { id, title: asString(value.t) ?? asString(value.title) } : null;
+}
+
+function decodeLegacyVideos(value: unknown): SharedVideo[] {
+  return asList(value).map(decodeLegacyVideo).filter((v): v is SharedVideo => v !== null);
+}
+
+// Convert an old { name, videos, playlists } / { n, v, p } session into a payload
+export function legacySessionToPayload(value: unknown): SharePayload | null {
+  if (!isRecord(value)) return null;
+
+  const playlists = asList(value.p ?? value.playlists).flatMap(p => {
+    if (!isRecord(p)) return [];
+    const id = asString(p.i) ?? asString(p.id);
+    return id ? [{ id, title: asString(p.t) ?? asString(p.title), videos: decodeLegacyVideos(p.v ?? p.videos) }] : [];
+  });
+  const sourceUrls = asList(value.sourceUrls).filter((url): url is string => typeof url === 'string');
+
+  const payload: SharePayload = {
+    version: SHARE_PAYLOAD_VERSION,
+    name: asString(value.n) ?? asString(value.name) ?? 'Shared Study Session',
+    sourceUrls: sourceUrls.length > 0 ? sourceUrls : undefined,
+    videos: decodeLegacyVideos(value.v ?? value.videos),
+    playlists
+  };
+
+  return payload.videos.length > 0 || payload.playlists.length > 0 || payload.sourceUrls ? payload : null;
+}
+
+function decodeDataParam(encodedData: string): SharePayload | null {
+  try {
+    const json = gunzipSync(Buffer.from(encodedData, 'base64url')).toString('utf-8');
+    return legacySessionToPayload(JSON.parse(json));
+  } catch (error) {
+    console.error('Error decoding legacy share data:', error);
+    return null;
+  }
+}
+
+// Rebuild a payload from the query string of an old share link, if it carries one
+export function decodeLegacyShareParams(params: URLSearchParams): SharePayload | null {
+  const sources = params.get('sources');
+  if (sources) {
+    const sourceUrls = sources.split('|').map(url => url.trim()).filter(Boolean);
+    if (sourceUrls.length === 0) return null;
+
+    return {
+      version: SHARE_PAYLOAD_VERSION,
+      name: params.get('name') || 'Shared Study Session',
+      sourceUrls,
+      videos: [],
+      playlists: []
+    };
+  }
+
+  const data = params.get('data');
+  return data ? decodeDataParam(data) : null;
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileShareStore, ShareRecord } from './share-store';
+
+interface TestRecord extends ShareRecord {
+  title: string;
+}
+
+function record(id: string, expiresAt = Date.now() + 60 * 60 * 1000): TestRecord {
+  return { id, createdAt: Date.now(), expiresAt, title: `Share ${id}` };
+}
+
+let dir: string;
+let filePath: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'share-store-'));
+  filePath = path.join(dir, 'shares.json');
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('FileShareStore', () => {
+  it('keeps shares across store instances', async () => {
+    await new FileShareStore(filePath).put('shares', record('abc'));
+
+    const store = new FileShareStore(filePath);
+    expect(await store.get<TestRecord>('shares', 'abc')).toMatchObject({ title: 'Share abc' });
+    expect(await store.get('sessions', 'abc')).toBeNull();
+  });
+
+  it('keeps every one of many concurrent writes', async () => {
+    const store = new FileShareStore(filePath);
+    const ids = Array.from({ length: 20 }, (_, i) => `id${i}`);
+
+    await Promise.all(ids.map(id => store.put('shares', record(id))));
+
+    const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    expect(Object.keys(stored.shares).sort()).toEqual([...ids].sort());
+  });
+
+  it('renames the temp file into place', async () => {
+    const store = new FileShareStore(filePath);
+    await store.put('shares', record('abc'));
+    await store.delete('shares', 'abc');
+
+    expect(await fs.readdir(dir)).toEqual(['shares.json']);
+    expect(await store.has('shares', 'abc')).toBe(false);
+  });
+
+  it('drops expired shares on read and on the next write', async () => {
+    const store = new FileShareStore(filePath);
+    await store.put('shares', record('old', Date.now() - 1000));
+    expect(await store.get('shares', 'old')).toBeNull();
+
+    await store.put('shares', record('new'));
+    const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    expect(Object.keys(stored.shares)).toEqual(['new']);
+  });
+
+  it('moves an unreadable file aside and starts empty', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await fs.writeFile(filePath, '{ not json', 'utf-8');
+
+    const store = new FileShareStore(filePath);
+    expect(await store.get('shares', 'abc')).toBeNull();
+
+    const files = await fs.readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^shares\.json\.corrupt-\d+$/);
+    expect(await fs.readFile(path.join(dir, files[0]), 'utf-8')).toBe('{ not json');
+
+    await store.put('shares', record('abc'));
+    expect(await store.has('shares', 'abc')).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Server-side storage for shared sessions, so share links survive restarts and new instances.
+// Pick a backend with SHARE_STORE ("file" by default, or "memory" for tests and throwaway
+// deployments). SHARE_STORE_PATH sets the file location and SHARE_TTL_DAYS the expiry.
+
+const DEFAULT_TTL_DAYS = 30;
+const DEFAULT_FILE_PATH = '.sessions-storage.json';
+
+// Every stored share carries its own timestamps; the payload is up to the route.
+// A null expiresAt never expires.
+export interface ShareRecord {
+  id: string;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+// Shares created by different routes have different shapes, so each keeps its own namespace.
+// "sessions" and "source-sessions" hold records from the pre-v1 routes and are only read now.
+export type ShareNamespace = 'shares' | 'sessions' | 'source-sessions';
+
+export interface ShareStore {
+  get<T extends ShareRecord>(namespace: ShareNamespace, id: string): Promise<T | null>;
+  put<T extends ShareRecord>(namespace: ShareNamespace, record: T): Promise<void>;
+  delete(namespace: ShareNamespace, id: string): Promise<void>;
+  has(namespace: ShareNamespace, id: string): Promise<boolean>;
+}
+
+type ShareData = Partial<Record<ShareNamespace, Record<string, ShareRecord>>>;
+
+function isExpired(record: ShareRecord, now = Date.now()): boolean {
+  return record.expiresAt !== null && record.expiresAt <= now;
+}
+
+export function getShareTtlMs(): number {
+  const days = Number(process.env.SHARE_TTL_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_TTL_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+// Generate a short, URL-friendly ID
+function generateShareId(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let result = '';
+  for (let i = 0; i < 8; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+// Pick an ID that isn't already taken in the namespace
+export async function createShareId(store: ShareStore, namespace: ShareNamespace): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const id = generateShareId();
+    if (!(await store.has(namespace, id))) {
+      return id;
+    }
+  }
+  throw new Error('Could not allocate a unique share ID');
+}
+
+// Keeps shares in process memory only. Nothing survives a restart.
+export class MemoryShareStore implements ShareStore {
+  private data: ShareData = {};
+
+  async get<T extends ShareRecord>(namespace: ShareNamespace, id: string): Promise<T | null> {
+    const record = this.data[namespace]?.[id];
+    if (!record) return null;
+
+    if (isExpired(record)) {
+      delete this.data[namespace]![id];
+      return null;
+    }
+    return record as T;
+  }
+
+  async put<T extends ShareRecord>(namespace: ShareNamespace, record: T): Promise<void> {
+    this.data[namespace] = { ...this.data[namespace], [record.id]: record };
+  }
+
+  async delete(namespace: ShareNamespace, id: string): Promise<void> {
+    delete this.data[namespace]?.[id];
+  }
+
+  async has(namespace: ShareNamespace, id: string): Promise<boolean> {
+    return (await this.get(namespace, id)) !== null;
+  }
+}
+
+// Keeps shares in a JSON file. Writes go to a temp file first and are renamed into
+// place, and are queued so concurrent requests in one process can't clobber each other.
+export class FileShareStore implements ShareStore {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  // A missing file is an empty store. Anything else that can't be read is thrown, except
+  // unparseable contents, which are moved aside so the next write can't overwrite them.
+  private async read(): Promise<ShareData> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) return parsed;
+    } catch {
+      // Fall through to the backup below
+    }
+
+    const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+    try {
+      await fs.rename(this.filePath, backupPath);
+    } catch (error) {
+      // Another read already moved it
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+    console.error(`Share store was not valid JSON; moved it to ${backupPath} and started empty`);
+    return {};
+  }
+
+  private async write(data: ShareData): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // Apply a change to the file, dropping expired shares while we're at it
+  private update(change: (data: ShareData) => void): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      const data = await this.read();
+      const now = Date.now();
+
+      for (const records of Object.values(data)) {
+        for (const [id, record] of Object.entries(records ?? {})) {
+          if (isExpired(record, now)) delete records![id];
+        }
+      }
+
+      change(data);
+      await this.write(data);
+    });
+
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  async get<T extends ShareRecord>(namespace: ShareNamespace, id: string): Promise<T | null> {
+    await this.writeQueue;
+    const record = (await this.read())[namespace]?.[id];
+    return record && !isExpired(record) ? record as T : null;
+  }
+
+  async put<T extends ShareRecord>(namespace: ShareNamespace, record: T): Promise<void> {
+    await this.update(data => {
+      data[namespace] = { ...data[namespace], [record.id]: record };
+    });
+  }
+
+  async delete(namespace: ShareNamespace, id: string): Promise<void> {
+    await this.update(data => {
+      delete data[namespace]?.[id];
+    });
+  }
+
+  async has(namespace: ShareNamespace, id: string): Promise<boolean> {
+    return (await this.get(namespace, id)) !== null;
+  }
+}
+
+let store: ShareStore | null = null;
+
+// The configured store, shared by every route handler in this process
+export function getShareStore(): ShareStore {
+  if (!store) {
+    const backend = process.env.SHARE_STORE || 'file';
+
+    if (backend === 'memory') {
+      store = new MemoryShareStore();
+    } else {
+      if (backend !== 'file') {
+        console.warn(`Unknown SHARE_STORE "${backend}", using the file store`);
+      }
+      store = new FileShareStore(path.resolve(process.env.SHARE_STORE_PATH || DEFAULT_FILE_PATH));
+    }
+  }
+
+  return store;
+}
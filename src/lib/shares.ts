@@ -0,0 +1,165 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { SHARE_EXPIRY_DAYS, ShareExpiry, SharePayload } from './share-format';
+import { decodeLegacyShareParams, legacySessionToPayload } from './share-legacy';
+import { createShareId, getShareStore, getShareTtlMs, ShareRecord } from './share-store';
+
+// Server-side share operations behind /api/v1/shares
+
+interface StoredShare extends ShareRecord {
+  // Cleared when the owner revokes the share; the record stays so viewers see "revoked"
+  payload: SharePayload | null;
+  // Only a hash is kept, so a leaked store file can't be used to manage shares
+  ownerTokenHash: string;
+  updatedAt: number;
+  revokedAt?: number;
+}
+
+// What the API returns for a share. expiresAt is null for shares that never expire
+// and for old self-contained links.
+export interface ShareResponse {
+  id: string;
+  payload: SharePayload;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number | null;
+}
+
+export type ShareResult =
+  | { status: 'ok'; share: ShareResponse }
+  | { status: 'notFound' | 'forbidden' | 'revoked' };
+
+export interface ShareChanges {
+  payload?: SharePayload;
+  expiresIn?: ShareExpiry;
+}
+
+function hashOwnerToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function ownerTokenMatches(share: StoredShare, token: string | null): boolean {
+  if (!token) return false;
+  const expected = Buffer.from(share.ownerTokenHash, 'hex');
+  const actual = Buffer.from(hashOwnerToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function getExpiresAt(expiresIn: ShareExpiry | undefined, now: number): number | null {
+  if (!expiresIn) return now + getShareTtlMs();
+
+  const days = SHARE_EXPIRY_DAYS[expiresIn];
+  return days === null ? null : now + days * 24 * 60 * 60 * 1000;
+}
+
+function toResponse(share: StoredShare, payload: SharePayload): ShareResponse {
+  return {
+    id: share.id,
+    payload,
+    createdAt: share.createdAt,
+    updatedAt: share.updatedAt,
+    expiresAt: share.expiresAt
+  };
+}
+
+function toResult(share: StoredShare): ShareResult {
+  if (share.revokedAt || !share.payload) {
+    return { status: 'revoked' };
+  }
+  return { status: 'ok', share: toResponse(share, share.payload) };
+}
+
+// Fetch a share its owner wants to change, checking the token first
+async function getOwnedShare(id: string, ownerToken: string | null): Promise<StoredShare | Exclude<ShareResult, { status: 'ok' }>> {
+  const share = await getShareStore().get<StoredShare>('shares', id);
+
+  if (!share) return { status: 'notFound' };
+  if (!ownerTokenMatches(share, ownerToken)) return { status: 'forbidden' };
+  if (share.revokedAt) return { status: 'revoked' };
+  return share;
+}
+
+export async function createShare(
+  payload: SharePayload,
+  expiresIn?: ShareExpiry
+): Promise<{ share: ShareResponse; ownerToken: string }> {
+  const store = getShareStore();
+  const now = Date.now();
+  const ownerToken = randomBytes(24).toString('base64url');
+
+  const share: StoredShare = {
+    id: await createShareId(store, 'shares'),
+    payload,
+    ownerTokenHash: hashOwnerToken(ownerToken),
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: getExpiresAt(expiresIn, now)
+  };
+
+  await store.put('shares', share);
+  return { share: toResponse(share, payload), ownerToken };
+}
+
+// Look a share up by id, falling back to the pre-v1 formats an old link may still use
+export async function getShare(id: string, legacyParams?: URLSearchParams): Promise<ShareResult> {
+  const store = getShareStore();
+
+  const share = await store.get<StoredShare>('shares', id);
+  if (share) return toResult(share);
+
+  const fromLink = legacyParams ? decodeLegacyShareParams(legacyParams) : null;
+  if (fromLink) {
+    const now = Date.now();
+    return { status: 'ok', share: { id, payload: fromLink, createdAt: now, updatedAt: now, expiresAt: null } };
+  }
+
+  for (const namespace of ['sessions', 'source-sessions'] as const) {
+    const legacy = await store.get<ShareRecord>(namespace, id);
+    const payload = legacy ? legacySessionToPayload(legacy) : null;
+    if (legacy && payload) {
+      return {
+        status: 'ok',
+        share: { id, payload, createdAt: legacy.createdAt, updatedAt: legacy.createdAt, expiresAt: legacy.expiresAt }
+      };
+    }
+  }
+
+  return { status: 'notFound' };
+}
+
+// Replace the shared collection and/or restart the expiry clock
+export async function updateShare(id: string, ownerToken: string | null, changes: ShareChanges): Promise<ShareResult> {
+  const owned = await getOwnedShare(id, ownerToken);
+  if ('status' in owned) return owned;
+
+  const now = Date.now();
+  const updated: StoredShare = {
+    ...owned,
+    payload: changes.payload ?? owned.payload,
+    expiresAt: changes.expiresIn ? getExpiresAt(changes.expiresIn, now) : owned.expiresAt,
+    updatedAt: now
+  };
+
+  await getShareStore().put('shares', updated);
+  return toResult(updated);
+}
+
+// Keep a tombstone without the collection, so the link reports "revoked" instead of "not found"
+export async function revokeShare(id: string, ownerToken: string | null): Promise<ShareResult> {
+  const owned = await getOwnedShare(id, ownerToken);
+  if ('status' in owned) return owned;
+
+  const now = Date.now();
+  await getShareStore().put<StoredShare>('shares', {
+    ...owned,
+    payload: null,
+    updatedAt: now,
+    revokedAt: now
+  });
+  return { status: 'revoked' };
+}
+
+// Owner tokens travel as "Authorization: Bearer <token>"
+export function getOwnerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
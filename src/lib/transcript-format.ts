@@ -0,0 +1,120 @@
+// Caption files (WebVTT and SubRip) parsed into a flat list of timed lines.
+// Shared by the server, which converts YouTube's caption tracks, and the browser,
+// which reads files the user uploads.
+
+export interface TranscriptCue {
+  start: number; // in seconds
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  videoId: string;
+  source: 'youtube' | 'upload';
+  language?: string; // caption track language, for YouTube transcripts
+  fileName?: string; // for uploaded transcripts
+  cues: TranscriptCue[];
+  updatedAt: string;
+}
+
+export interface TranscriptMatch {
+  videoId: string;
+  cue: TranscriptCue;
+}
+
+// "01:02:03.456", "02:03.456" or SubRip's "01:02:03,456"
+const TIMING_PATTERN = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+function parseCueTime(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return seconds + parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+}
+
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(' ')
+    .replace(/<[^>]+>/g, '') // voice spans, karaoke timestamps, <b>/<i>
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Handles both formats: a cue is a timing line followed by text up to the next blank line.
+// Headers, NOTE/STYLE blocks and SubRip counters have no timing line and are skipped.
+export function parseCaptionFile(content: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+    if (timingIndex < 0) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING_PATTERN)!;
+    const text = cleanCueText(lines.slice(timingIndex + 1));
+    if (!text) continue;
+
+    // Auto-generated captions repeat the previous line while the next one scrolls in
+    const previous = cues[cues.length - 1];
+    if (previous && previous.text === text) {
+      previous.end = parseCueTime(end);
+      continue;
+    }
+
+    cues.push({ start: parseCueTime(start), end: parseCueTime(end), text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+// Index of the line being spoken at `time`: the last one that has started, or -1
+export function getCueIndex(cues: TranscriptCue[], time: number): number {
+  let low = 0;
+  let high = cues.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Lines containing every word of the query, ignoring case, in transcript order
+export function searchTranscripts(transcripts: Transcript[], query: string): TranscriptMatch[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  return transcripts.flatMap(transcript => transcript.cues
+    .filter(cue => {
+      const text = cue.text.toLowerCase();
+      return words.every(word => text.includes(word));
+    })
+    .map(cue => ({ videoId: transcript.videoId, cue }))
+  );
+}
+
+export function isValidTranscript(value: unknown): value is Transcript {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const record = value as Record<string, unknown>;
+  return typeof record.videoId === 'string' &&
+    (record.source === 'youtube' || record.source === 'upload') &&
+    typeof record.updatedAt === 'string' &&
+    Array.isArray(record.cues) &&
+    record.cues.every(cue => typeof cue === 'object' && cue !== null &&
+      typeof (cue as TranscriptCue).start === 'number' &&
+      typeof (cue as TranscriptCue).end === 'number' &&
+      typeof (cue as TranscriptCue).text === 'string');
+}
@@ -0,0 +1,54 @@
+import { deleteTranscriptRecord, getTranscriptRecords, putTranscriptRecord } from './session-storage';
+import { isValidTranscript, parseCaptionFile, Transcript, TranscriptCue } from './transcript-format';
+
+// Browser-side transcript loading. Transcripts are kept per video in IndexedDB, so a
+// video's captions are only fetched (or uploaded) once however many sessions use it.
+
+export const TRANSCRIPT_FILE_EXTENSIONS = ['.vtt', '.srt'];
+
+export async function getSavedTranscripts(videoIds: string[]): Promise<Transcript[]> {
+  const records = await getTranscriptRecords(Array.from(new Set(videoIds)));
+  return records.filter(isValidTranscript);
+}
+
+// Captions from YouTube, or null when the video has none (the user can upload a file instead)
+export async function fetchYouTubeTranscript(videoId: string): Promise<Transcript | null> {
+  const response = await fetch(`/api/youtube/transcript?id=${encodeURIComponent(videoId)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Caption request failed: ${response.status}`);
+  }
+
+  const { language, cues } = await response.json() as { language: string; cues: TranscriptCue[] };
+  const transcript: Transcript = {
+    videoId,
+    source: 'youtube',
+    language,
+    cues,
+    updatedAt: new Date().toISOString()
+  };
+  await putTranscriptRecord(transcript);
+  return transcript;
+}
+
+export async function saveUploadedTranscript(videoId: string, file: File): Promise<Transcript> {
+  const cues = parseCaptionFile(await file.text());
+  if (cues.length === 0) {
+    throw new Error(`No captions found in ${file.name}. Upload a WebVTT (.vtt) or SubRip (.srt) file.`);
+  }
+
+  const transcript: Transcript = {
+    videoId,
+    source: 'upload',
+    fileName: file.name,
+    cues,
+    updatedAt: new Date().toISOString()
+  };
+  await putTranscriptRecord(transcript);
+  return transcript;
+}
+
+export async function deleteTranscript(videoId: string): Promise<void> {
+  await deleteTranscriptRecord(videoId);
+}
@@ -0,0 +1,27 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getQuotaUsage, YouTubeAPI, YouTubeAPIError } from './youtube-api';
+
+beforeEach(() => {
+  vi.stubEnv('YOUTUBE_DAILY_QUOTA', '1000');
+  vi.stubEnv('YOUTUBE_SEARCH_QUOTA', '200');
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ items: [] }))));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('YouTubeAPI quota', () => {
+  it('stops searching at the search budget but keeps serving other lookups', async () => {
+    const api = new YouTubeAPI('key');
+
+    await api.search('linear algebra');
+    await api.search('calculus');
+    await expect(api.search('physics')).rejects.toEqual(expect.any(YouTubeAPIError));
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await api.fetchPlaylistDetails('PL1');
+    expect(getQuotaUsage()).toMatchObject({ units: 201, searchUnits: 200, limit: 1000, searchLimit: 200 });
+  });
+});
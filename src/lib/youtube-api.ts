@@ -1,3 +1,5 @@
+import { Chapter, parseChapters } from './youtube';
+
 // YouTube Data API v3 integration
 export interface YouTubeAPIVideo {
   id: string;
@@ -29,6 +31,36 @@ export interface YouTubeAPIPlaylist {
   };
 }
 
+export interface YouTubeAPIChannel {
+  id: string;
+  snippet: {
+    title: string;
+  };
+  contentDetails: {
+    relatedPlaylists: {
+      uploads: string;
+    };
+  };
+}
+
+export interface YouTubeAPISearchResult {
+  id: {
+    kind: string; // "youtube#video" or "youtube#playlist"
+    videoId?: string;
+    playlistId?: string;
+  };
+  snippet: {
+    title: string;
+    channelTitle: string;
+    publishedAt: string;
+    thumbnails: {
+      default: { url: string };
+      medium: { url: string };
+      high: { url: string };
+    };
+  };
+}
+
 export interface YouTubeAPIPlaylistItem {
   snippet: {
     title: string;
@@ -44,6 +76,12 @@ export interface YouTubeAPIPlaylistItem {
   };
 }
 
+export interface YouTubeAPIPlaylistItemsPage {
+  items: YouTubeAPIPlaylistItem[];
+  nextPageToken?: string;
+  totalResults?: number;
+}
+
 // Convert ISO 8601 duration to seconds
 function parseDuration(duration: string): number {
   const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
@@ -56,6 +94,114 @@ function parseDuration(duration: string): number {
   return hours * 3600 + minutes * 60 + seconds;
 }
 
+export type YouTubeAPIErrorKind = 'quotaExceeded' | 'notFound' | 'private' | 'invalidKey' | 'network' | 'server';
+
+// Raised by YouTubeAPI so callers can tell a used-up quota from a missing or private resource
+export class YouTubeAPIError extends Error {
+  constructor(
+    public readonly kind: YouTubeAPIErrorKind,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'YouTubeAPIError';
+  }
+}
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 500; // in ms, doubled on every attempt
+const DEFAULT_DAILY_QUOTA = 10000; // units, Google's default allocation
+const DEFAULT_SEARCH_QUOTA_SHARE = 0.3; // of the daily quota, when YOUTUBE_SEARCH_QUOTA isn't set
+
+// Quota resets at midnight Pacific time
+function getQuotaDay(): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Los_Angeles' }).format(new Date());
+}
+
+function getDailyQuota(): number {
+  const quota = Number(process.env.YOUTUBE_DAILY_QUOTA);
+  return Number.isFinite(quota) && quota > 0 ? quota : DEFAULT_DAILY_QUOTA;
+}
+
+// Search is open to anyone using the app and costs 100 units a page, so it gets its own
+// smaller budget and can't use up the quota that resolving and playlist streaming need
+function getSearchQuota(): number {
+  const quota = Number(process.env.YOUTUBE_SEARCH_QUOTA);
+  return Number.isFinite(quota) && quota >= 0 ? quota : Math.floor(getDailyQuota() * DEFAULT_SEARCH_QUOTA_SHARE);
+}
+
+// Units spent by this process today. Every list call used here costs 1 unit; search costs 100.
+// searchUnits is the part of `units` spent on in-app search.
+const quotaUsage = { day: getQuotaDay(), units: 0, searchUnits: 0 };
+
+export function getQuotaUsage(): { day: string; units: number; limit: number; searchUnits: number; searchLimit: number } {
+  if (quotaUsage.day !== getQuotaDay()) {
+    quotaUsage.day = getQuotaDay();
+    quotaUsage.units = 0;
+    quotaUsage.searchUnits = 0;
+  }
+  return { ...quotaUsage, limit: getDailyQuota(), searchLimit: getSearchQuota() };
+}
+
+// Refuse a call that would go over the daily quota, or over the search budget for a search
+function checkQuota(units: number, isSearch: boolean): void {
+  const usage = getQuotaUsage();
+  if (usage.units + units > usage.limit) {
+    throw new YouTubeAPIError('quotaExceeded', `Daily YouTube API quota of ${usage.limit} units is used up`);
+  }
+  if (isSearch && usage.searchUnits + units > usage.searchLimit) {
+    throw new YouTubeAPIError('quotaExceeded', `Daily YouTube search budget of ${usage.searchLimit} units is used up`);
+  }
+}
+
+// Count a call once YouTube has answered it; requests that never got there cost nothing
+function spendQuota(units: number, isSearch: boolean): void {
+  const usage = getQuotaUsage();
+  quotaUsage.units += units;
+  if (isSearch) quotaUsage.searchUnits += units;
+  if (quotaUsage.units >= usage.limit * 0.8 && quotaUsage.units - units < usage.limit * 0.8) {
+    console.warn(`YouTube API quota at ${quotaUsage.units}/${usage.limit} units for ${usage.day}`);
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Map a failed response onto an error kind using the reason Google puts in the body
+async function toAPIError(response: Response): Promise<YouTubeAPIError> {
+  const body = await response.json().catch(() => null);
+  const reason: string | undefined = body?.error?.errors?.[0]?.reason;
+  const message: string = body?.error?.message || `API request failed: ${response.status}`;
+
+  if (reason === 'quotaExceeded' || reason === 'dailyLimitExceeded') {
+    return new YouTubeAPIError('quotaExceeded', message, response.status);
+  }
+  if (reason === 'keyInvalid' || reason === 'keyExpired' || reason === 'accessNotConfigured' || reason === 'ipRefererBlocked') {
+    return new YouTubeAPIError('invalidKey', message, response.status);
+  }
+  if (reason === 'rateLimitExceeded' || reason === 'userRateLimitExceeded') {
+    // Short-term throttling rather than the daily quota, so worth retrying
+    return new YouTubeAPIError('server', message, response.status);
+  }
+  if (response.status === 404) {
+    return new YouTubeAPIError('notFound', message, response.status);
+  }
+  if (response.status === 403) {
+    return new YouTubeAPIError('private', message, response.status);
+  }
+  if (response.status === 400) {
+    return new YouTubeAPIError('invalidKey', message, response.status);
+  }
+  return new YouTubeAPIError('server', message, response.status);
+}
+
+function isRetryable(error: YouTubeAPIError): boolean {
+  return error.kind === 'network' ||
+    error.kind === 'server' ||
+    error.status === 429;
+}
+
 export class YouTubeAPI {
   private apiKey: string;
   private baseUrl = 'https://www.googleapis.com/youtube/v3';
@@ -64,86 +210,128 @@ export class YouTubeAPI {
     this.apiKey = apiKey;
   }
 
-  async fetchPlaylistDetails(playlistId: string): Promise<YouTubeAPIPlaylist | null> {
-    try {
-      const response = await fetch(
-        `${this.baseUrl}/playlists?part=snippet&id=${playlistId}&key=${this.apiKey}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      return data.items?.[0] || null;
-    } catch (error) {
-      console.error('Error fetching playlist details:', error);
-      return null;
-    }
-  }
+  // GET an endpoint, retrying transient failures with exponential backoff.
+  // `isSearch` marks in-app searches, which also count against the search budget.
+  private async request<T>(path: string, params: Record<string, string>, quotaUnits = 1, isSearch = false): Promise<T> {
+    const query = new URLSearchParams({ ...params, key: this.apiKey });
+    const url = `${this.baseUrl}/${path}?${query}`;
+
+    for (let attempt = 0; ; attempt++) {
+      checkQuota(quotaUnits, isSearch);
 
-  async fetchPlaylistItems(playlistId: string, maxResults = 200): Promise<YouTubeAPIPlaylistItem[]> {
-    try {
-      const items: YouTubeAPIPlaylistItem[] = [];
-      let nextPageToken = '';
-      
-      while (items.length < maxResults) {
-        const pageSize = Math.min(50, maxResults - items.length); // API max is 50 per request
-        const url = `${this.baseUrl}/playlistItems?part=snippet&playlistId=${playlistId}&maxResults=${pageSize}&key=${this.apiKey}${nextPageToken ? `&pageToken=${nextPageToken}` : ''}`;
-        
+      let error: YouTubeAPIError;
+      try {
         const response = await fetch(url);
-        
-        if (!response.ok) {
-          throw new Error(`API request failed: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        items.push(...(data.items || []));
-        
-        if (!data.nextPageToken || items.length >= maxResults) {
-          break;
+        spendQuota(quotaUnits, isSearch);
+        if (response.ok) {
+          return await response.json();
         }
-        
-        nextPageToken = data.nextPageToken;
+        error = await toAPIError(response);
+      } catch (fetchError) {
+        error = new YouTubeAPIError('network', fetchError instanceof Error ? fetchError.message : 'Network request failed');
       }
-      
-      return items.slice(0, maxResults);
-    } catch (error) {
-      console.error('Error fetching playlist items:', error);
-      return [];
+
+      if (error.kind === 'quotaExceeded') {
+        // Google knows better than our count; stop calling until the quota day rolls over
+        quotaUsage.units = Math.max(quotaUsage.units, getDailyQuota());
+      }
+      if (!isRetryable(error) || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+
+      const delay = RETRY_BASE_DELAY * 2 ** attempt + Math.random() * RETRY_BASE_DELAY;
+      console.warn(`YouTube API ${path} failed (${error.message}), retrying in ${Math.round(delay)}ms`);
+      await wait(delay);
     }
   }
 
+  async fetchPlaylistDetails(playlistId: string): Promise<YouTubeAPIPlaylist | null> {
+    const data = await this.request<{ items?: YouTubeAPIPlaylist[] }>('playlists', {
+      part: 'snippet',
+      id: playlistId
+    });
+    return data.items?.[0] || null;
+  }
+
+  // Look a channel up by one of the lookups channels.list supports: id, forHandle or forUsername
+  async fetchChannel(lookup: { id: string } | { forHandle: string } | { forUsername: string }): Promise<YouTubeAPIChannel | null> {
+    const data = await this.request<{ items?: YouTubeAPIChannel[] }>('channels', {
+      part: 'snippet,contentDetails',
+      ...lookup
+    });
+    return data.items?.[0] || null;
+  }
+
+  // Videos and playlists matching a query, 25 at a time. Costs 100 quota units per page.
+  async search(query: string, pageToken?: string): Promise<{ items: YouTubeAPISearchResult[]; nextPageToken?: string }> {
+    const data = await this.request<{ items?: YouTubeAPISearchResult[]; nextPageToken?: string }>('search', {
+      part: 'snippet',
+      type: 'video,playlist',
+      q: query,
+      maxResults: '25',
+      ...(pageToken ? { pageToken } : {})
+    }, 100, true);
+    return { items: data.items || [], nextPageToken: data.nextPageToken };
+  }
+
+  // Costs 100 quota units, so only used for old /c/ links that nothing else can resolve
+  async searchChannelId(query: string): Promise<string | null> {
+    const data = await this.request<{ items?: { id: { channelId?: string } }[] }>('search', {
+      part: 'snippet',
+      type: 'channel',
+      q: query,
+      maxResults: '1'
+    }, 100);
+    return data.items?.[0]?.id.channelId || null;
+  }
+
+  // One page of a playlist (the API returns at most 50 items per request).
+  // totalResults is what YouTube reports, which also counts private and deleted entries.
+  async fetchPlaylistItemsPage(playlistId: string, pageToken?: string): Promise<YouTubeAPIPlaylistItemsPage> {
+    const data = await this.request<{
+      items?: YouTubeAPIPlaylistItem[];
+      nextPageToken?: string;
+      pageInfo?: { totalResults?: number };
+    }>('playlistItems', {
+      part: 'snippet',
+      playlistId,
+      maxResults: '50',
+      ...(pageToken ? { pageToken } : {})
+    });
+
+    return {
+      items: data.items || [],
+      nextPageToken: data.nextPageToken,
+      totalResults: data.pageInfo?.totalResults
+    };
+  }
+
+  async fetchPlaylistItems(playlistId: string, maxResults = Infinity): Promise<YouTubeAPIPlaylistItem[]> {
+    const items: YouTubeAPIPlaylistItem[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.fetchPlaylistItemsPage(playlistId, pageToken);
+      items.push(...page.items);
+      pageToken = page.nextPageToken;
+    } while (pageToken && items.length < maxResults);
+
+    return items.slice(0, maxResults);
+  }
+
   async fetchVideoDetails(videoIds: string[]): Promise<YouTubeAPIVideo[]> {
-    if (videoIds.length === 0) return [];
-    
-    try {
-      // API allows up to 50 video IDs per request
-      const chunks: string[][] = [];
-      for (let i = 0; i < videoIds.length; i += 50) {
-        chunks.push(videoIds.slice(i, i + 50));
-      }
-      
-      const allVideos: YouTubeAPIVideo[] = [];
-      
-      for (const chunk of chunks) {
-        const response = await fetch(
-          `${this.baseUrl}/videos?part=snippet,contentDetails&id=${chunk.join(',')}&key=${this.apiKey}`
-        );
-        
-        if (!response.ok) {
-          throw new Error(`API request failed: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        allVideos.push(...(data.items || []));
-      }
-      
-      return allVideos;
-    } catch (error) {
-      console.error('Error fetching video details:', error);
-      return [];
+    const allVideos: YouTubeAPIVideo[] = [];
+
+    // API allows up to 50 video IDs per request
+    for (let i = 0; i < videoIds.length; i += 50) {
+      const data = await this.request<{ items?: YouTubeAPIVideo[] }>('videos', {
+        part: 'snippet,contentDetails',
+        id: videoIds.slice(i, i + 50).join(',')
+      });
+      allVideos.push(...(data.items || []));
     }
+
+    return allVideos;
   }
 
   async fetchVideoDetail(videoId: string): Promise<YouTubeAPIVideo | null> {
@@ -152,12 +340,59 @@ export class YouTubeAPI {
   }
 }
 
-// Factory function to create API instance
+// What to tell the user when a lookup fails, with a hint about what they can do.
+// `subject` is lower-case, e.g. "playlist PL123".
+export function getYouTubeErrorMessage(error: unknown, subject: string): string {
+  const Subject = subject.charAt(0).toUpperCase() + subject.slice(1);
+
+  if (!(error instanceof YouTubeAPIError)) {
+    return `Failed to load ${subject}`;
+  }
+
+  switch (error.kind) {
+    case 'quotaExceeded':
+      return `Couldn't load ${subject}: today's YouTube API quota is used up. It resets at midnight Pacific time.`;
+    case 'notFound':
+      return `${Subject} doesn't exist. Check that the link is complete.`;
+    case 'private':
+      return `${Subject} is private. Make it public or unlisted to add it.`;
+    case 'invalidKey':
+      return `Couldn't load ${subject}: the server's YouTube API key is invalid or not enabled for the YouTube Data API.`;
+    case 'network':
+      return `Couldn't reach YouTube to load ${subject}. Try again in a moment.`;
+    case 'server':
+      return `YouTube had a problem loading ${subject}. Try again in a few minutes.`;
+  }
+}
+
+// The HTTP status an API route should answer with when a lookup fails
+export function getYouTubeErrorStatus(error: unknown): number {
+  if (!(error instanceof YouTubeAPIError)) return 500;
+
+  switch (error.kind) {
+    case 'notFound':
+      return 404;
+    case 'private':
+      return 403;
+    case 'quotaExceeded':
+      return 429;
+    default:
+      return 502;
+  }
+}
+
+let warnedMissingKey = false;
+
+// Factory function to create API instance.
+// Server-only: the key is a private env var so it never reaches the browser bundle.
 export function createYouTubeAPI(): YouTubeAPI | null {
-  const apiKey = process.env.NEXT_PUBLIC_YOUTUBE_API_KEY;
+  const apiKey = process.env.YOUTUBE_API_KEY;
   
   if (!apiKey || apiKey === 'your_youtube_api_key_here') {
-    console.warn('YouTube API key not configured. Using placeholder data.');
+    if (!warnedMissingKey) {
+      console.warn('YouTube API key not configured; falling back to keyless resolution.');
+      warnedMissingKey = true;
+    }
     return null;
   }
   
@@ -171,12 +406,18 @@ export function convertAPIVideoToVideoInfo(apiVideo: YouTubeAPIVideo): {
   title: string;
   duration: number;
   thumbnail: string;
+  publishedAt: string;
+  chapters?: Chapter[];
 } {
+  const chapters = parseChapters(apiVideo.snippet.description ?? '');
+
   return {
     id: apiVideo.id,
     url: `https://www.youtube.com/watch?v=${apiVideo.id}`,
     title: apiVideo.snippet.title,
     duration: parseDuration(apiVideo.contentDetails.duration),
-    thumbnail: apiVideo.snippet.thumbnails.medium?.url || apiVideo.snippet.thumbnails.default?.url
+    thumbnail: apiVideo.snippet.thumbnails.medium?.url || apiVideo.snippet.thumbnails.default?.url,
+    publishedAt: apiVideo.snippet.publishedAt,
+    ...(chapters ? { chapters } : {})
   };
 }
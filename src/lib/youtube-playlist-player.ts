@@ -0,0 +1,109 @@
+// Browser-only: lists a playlist's video IDs through the YouTube IFrame player, which needs no API key.
+// A hidden player cues the playlist and reads getPlaylist() (YouTube caps this at 200 entries).
+
+const IFRAME_API_URL = 'https://www.youtube.com/iframe_api';
+const ENUMERATION_TIMEOUT = 15000; // in ms
+const POLL_INTERVAL = 250; // in ms
+
+interface IFramePlayer {
+  getPlaylist(): string[] | null;
+  destroy(): void;
+}
+
+interface IFramePlayerOptions {
+  height: string;
+  width: string;
+  playerVars: Record<string, string | number>;
+  events: {
+    onReady: () => void;
+    onError: (event: { data: number }) => void;
+  };
+}
+
+interface IFrameAPI {
+  Player: new (element: HTMLElement, options: IFramePlayerOptions) => IFramePlayer;
+}
+
+declare global {
+  interface Window {
+    YT?: IFrameAPI;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+let apiPromise: Promise<IFrameAPI> | null = null;
+
+// Loads the IFrame API once, chaining any ready callback another player library set up
+function loadIFrameAPI(): Promise<IFrameAPI> {
+  if (window.YT?.Player) {
+    return Promise.resolve(window.YT);
+  }
+
+  if (!apiPromise) {
+    apiPromise = new Promise((resolve, reject) => {
+      const previous = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previous?.();
+        resolve(window.YT!);
+      };
+
+      if (!document.querySelector(`script[src="${IFRAME_API_URL}"]`)) {
+        const script = document.createElement('script');
+        script.src = IFRAME_API_URL;
+        script.async = true;
+        script.onerror = () => {
+          apiPromise = null;
+          reject(new Error('Failed to load the YouTube player API'));
+        };
+        document.head.appendChild(script);
+      }
+    });
+  }
+
+  return apiPromise;
+}
+
+export async function enumeratePlaylistVideoIds(playlistId: string): Promise<string[]> {
+  const YT = await loadIFrameAPI();
+
+  const container = document.createElement('div');
+  container.style.position = 'fixed';
+  container.style.left = '-9999px';
+  container.setAttribute('aria-hidden', 'true');
+  const mount = document.createElement('div');
+  container.appendChild(mount);
+  document.body.appendChild(container);
+
+  let player: IFramePlayer | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await new Promise<string[]>((resolve, reject) => {
+      timeoutTimer = setTimeout(() => reject(new Error(`Timed out listing playlist ${playlistId}`)), ENUMERATION_TIMEOUT);
+
+      player = new YT.Player(mount, {
+        height: '0',
+        width: '0',
+        playerVars: { listType: 'playlist', list: playlistId, autoplay: 0 },
+        events: {
+          onReady: () => {
+            // The list arrives a little after the player is ready
+            pollTimer = setInterval(() => {
+              const ids = player?.getPlaylist();
+              if (ids && ids.length > 0) {
+                resolve(ids);
+              }
+            }, POLL_INTERVAL);
+          },
+          onError: (event) => reject(new Error(`Playlist ${playlistId} could not be loaded (player error ${event.data})`))
+        }
+      });
+    });
+  } finally {
+    clearInterval(pollTimer);
+    clearTimeout(timeoutTimer);
+    (player as IFramePlayer | null)?.destroy();
+    container.remove();
+  }
+}
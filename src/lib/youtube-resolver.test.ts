@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resolveTranscript } from './youtube-resolver';
+
+const TRACK_LIST = '<transcript_list><track id="0" name="" lang_code="en" lang_default="true"/></transcript_list>';
+const CAPTIONS = 'WEBVTT\n\n00:00:01.000 --> 00:00:03.000\nHello there\n';
+
+function mockFetch(...responses: Response[]) {
+  const fetchMock = vi.fn();
+  responses.forEach(response => fetchMock.mockResolvedValueOnce(response));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// Each test uses its own video id, since the transcript cache lives as long as the module
+describe('resolveTranscript', () => {
+  it('returns the English captions', async () => {
+    mockFetch(new Response(TRACK_LIST), new Response(CAPTIONS));
+
+    const transcript = await resolveTranscript('video00001a');
+    expect(transcript?.language).toBe('en');
+    expect(transcript?.cues).toHaveLength(1);
+  });
+
+  it('caches "no captions"', async () => {
+    const fetchMock = mockFetch(new Response('<transcript_list></transcript_list>'));
+
+    expect(await resolveTranscript('video00002a')).toBeNull();
+    expect(await resolveTranscript('video00002a')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws when the caption list request fails, without caching the failure', async () => {
+    mockFetch(new Response('', { status: 503 }), new Response(TRACK_LIST), new Response(CAPTIONS));
+
+    await expect(resolveTranscript('video00003a')).rejects.toThrow('Caption list request failed: 503');
+    expect((await resolveTranscript('video00003a'))?.cues).toHaveLength(1);
+  });
+
+  it('throws when the caption file request fails, without caching the failure', async () => {
+    mockFetch(new Response(TRACK_LIST), new Response('', { status: 500 }), new Response(TRACK_LIST), new Response(CAPTIONS));
+
+    await expect(resolveTranscript('video00004a')).rejects.toThrow('Caption request failed: 500');
+    expect((await resolveTranscript('video00004a'))?.cues).toHaveLength(1);
+  });
+
+  it('puts a time limit on both requests', async () => {
+    const fetchMock = mockFetch(new Response(TRACK_LIST), new Response(CAPTIONS));
+
+    await resolveTranscript('video00005a');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    fetchMock.mock.calls.forEach(([, init]) => expect(init?.signal).toBeInstanceOf(AbortSignal));
+  });
+});
@@ -0,0 +1,424 @@
+import { parseCaptionFile, TranscriptCue } from './transcript-format';
+import { ChannelRef, extractChannelRef, extractPlaylistId, extractTimeRange, extractVideoId, getUploadsPlaylistId, isValidYouTubeUrl, parseYouTubeUrls, PlaylistInfo, PlaylistPage, VideoInfo, YouTubeResolveResult, YouTubeSearchPage, YouTubeSearchResult } from './youtube';
+import { convertAPIVideoToVideoInfo, createYouTubeAPI, getYouTubeErrorMessage, YouTubeAPI, YouTubeAPIChannel } from './youtube-api';
+
+// Server-only: resolves YouTube URLs behind /api/youtube/resolve, with the private API key
+// when one is configured and through oEmbed otherwise.
+// Metadata is cached per instance so repeat lookups (e.g. every viewer of a shared
+// playlist) don't spend quota. YOUTUBE_CACHE_TTL_MINUTES sets how long entries live.
+// Keys come from client input, so each cache is also capped and drops its least recently used entries.
+
+const DEFAULT_CACHE_TTL_MINUTES = 60;
+const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+const OEMBED_URL = 'https://www.youtube.com/oembed';
+const OEMBED_CONCURRENCY = 8;
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Map iteration follows insertion order, so re-inserting on every hit keeps the least
+// recently used entry first
+class TTLCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private readonly ttlMs: number, private readonly maxEntries = DEFAULT_CACHE_MAX_ENTRIES) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.forEach((entry, existingKey) => {
+      if (entry.expiresAt <= now) this.entries.delete(existingKey);
+    });
+
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+}
+
+function getCacheTtlMs(): number {
+  const minutes = Number(process.env.YOUTUBE_CACHE_TTL_MINUTES);
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_CACHE_TTL_MINUTES) * 60 * 1000;
+}
+
+const videoCache = new TTLCache<VideoInfo>(getCacheTtlMs());
+const playlistCache = new TTLCache<Omit<PlaylistInfo, 'url'>>(getCacheTtlMs());
+const playlistPageCache = new TTLCache<PlaylistPage>(getCacheTtlMs());
+
+// Look up videos, only asking the API for the ones not already cached
+async function getVideos(api: YouTubeAPI, videoIds: string[]): Promise<VideoInfo[]> {
+  const missing = videoIds.filter(id => !videoCache.get(id));
+
+  if (missing.length > 0) {
+    const details = await api.fetchVideoDetails(missing);
+    details.map(convertAPIVideoToVideoInfo).forEach(video => videoCache.set(video.id, video));
+  }
+
+  return videoIds
+    .map(id => videoCache.get(id))
+    .filter((video): video is VideoInfo => video !== undefined);
+}
+
+// Pages are cached by token, so everyone streaming the same long playlist shares the lookups.
+// `fresh` skips the cached copy (a playlist refresh) but still stores the new one.
+async function getPlaylistPage(api: YouTubeAPI, playlistId: string, pageToken?: string, fresh = false): Promise<PlaylistPage> {
+  const cacheKey = `${playlistId}:${pageToken ?? ''}`;
+  const cached = fresh ? undefined : playlistPageCache.get(cacheKey);
+  if (cached) return cached;
+
+  const page = await api.fetchPlaylistItemsPage(playlistId, pageToken);
+  const videoIds = page.items
+    .map(item => item.snippet.resourceId.videoId)
+    .filter(Boolean);
+
+  const playlistPage = {
+    videos: await getVideos(api, videoIds),
+    nextPageToken: page.nextPageToken,
+    totalVideos: page.totalResults
+  };
+
+  playlistPageCache.set(cacheKey, playlistPage);
+  return playlistPage;
+}
+
+// The playlist with its first page of videos; the rest is fetched page by page
+async function getPlaylist(api: YouTubeAPI, playlistId: string, fresh = false): Promise<Omit<PlaylistInfo, 'url'> | null> {
+  const cached = fresh ? undefined : playlistCache.get(playlistId);
+  if (cached) return cached;
+
+  const [playlistDetails, firstPage] = await Promise.all([
+    api.fetchPlaylistDetails(playlistId),
+    getPlaylistPage(api, playlistId, undefined, fresh)
+  ]);
+
+  if (firstPage.videos.length === 0 && !firstPage.nextPageToken) return null;
+
+  const playlist = {
+    id: playlistId,
+    title: playlistDetails?.snippet.title || `Playlist ${playlistId}`,
+    ...firstPage
+  };
+
+  playlistCache.set(playlistId, playlist);
+  return playlist;
+}
+
+const channelUploadsCache = new TTLCache<string>(getCacheTtlMs());
+
+// The uploads playlist behind a channel link. /c/ names usually match the channel's handle
+// now; only when they don't is the (expensive) search used.
+async function getChannelUploadsId(api: YouTubeAPI, channel: ChannelRef): Promise<string | null> {
+  const cacheKey = `${channel.kind}:${channel.value}`;
+  const cached = channelUploadsCache.get(cacheKey);
+  if (cached) return cached;
+
+  let found: YouTubeAPIChannel | null = null;
+  if (channel.kind === 'id') {
+    found = await api.fetchChannel({ id: channel.value });
+  } else if (channel.kind === 'user') {
+    found = await api.fetchChannel({ forUsername: channel.value });
+  } else {
+    found = await api.fetchChannel({ forHandle: channel.value });
+    if (!found && channel.kind === 'custom') {
+      const channelId = await api.searchChannelId(channel.value);
+      found = channelId ? await api.fetchChannel({ id: channelId }) : null;
+    }
+  }
+
+  const uploadsId = found?.contentDetails.relatedPlaylists.uploads ?? (found ? getUploadsPlaylistId(found.id) : null);
+  if (uploadsId) channelUploadsCache.set(cacheKey, uploadsId);
+  return uploadsId;
+}
+
+interface OEmbedResponse {
+  title?: string;
+  thumbnail_url?: string;
+}
+
+// Public oEmbed endpoint: titles and thumbnails without an API key, but no durations
+async function fetchOEmbed(url: string): Promise<OEmbedResponse | null> {
+  try {
+    const response = await fetch(`${OEMBED_URL}?format=json&url=${encodeURIComponent(url)}`);
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.error('Error fetching oEmbed data:', error);
+    return null;
+  }
+}
+
+async function getVideoWithoutKey(videoId: string, url: string): Promise<VideoInfo> {
+  const cached = videoCache.get(videoId);
+  if (cached) return { ...cached, url };
+
+  const oembed = await fetchOEmbed(`https://www.youtube.com/watch?v=${videoId}`);
+  if (!oembed?.title) {
+    return { id: videoId, url };
+  }
+
+  const video = { id: videoId, url, title: oembed.title, thumbnail: oembed.thumbnail_url };
+  videoCache.set(videoId, video);
+  return video;
+}
+
+// Run async work over a list with a cap on how many requests are in flight
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+// Keyless resolution: oEmbed for videos and playlist titles. Playlists come back with no
+// videos; the browser lists them through the IFrame player (see youtube-playlist-player.ts).
+async function resolveWithoutKey(urls: string[]): Promise<YouTubeResolveResult> {
+  const { videos, playlists, errors } = parseYouTubeUrls(urls);
+
+  const resolvedVideos = await mapWithConcurrency(videos, OEMBED_CONCURRENCY, async video => ({
+    ...(await getVideoWithoutKey(video.id, video.url)),
+    ...extractTimeRange(video.url)
+  }));
+  const resolvedPlaylists = await mapWithConcurrency(playlists, OEMBED_CONCURRENCY, async playlist => {
+    const oembed = await fetchOEmbed(`https://www.youtube.com/playlist?list=${playlist.id}`);
+    return { ...playlist, title: oembed?.title || playlist.title };
+  });
+
+  return { videos: resolvedVideos, playlists: resolvedPlaylists, errors };
+}
+
+// `fresh` reloads playlists instead of using cached ones; video details don't go stale the same way
+export async function resolveYouTubeUrls(urls: string[], fresh = false): Promise<YouTubeResolveResult> {
+  const youtubeAPI = createYouTubeAPI();
+  if (!youtubeAPI) {
+    return resolveWithoutKey(urls);
+  }
+
+  const videos: VideoInfo[] = [];
+  const playlists: PlaylistInfo[] = [];
+  const errors: string[] = [];
+
+  for (let index = 0; index < urls.length; index++) {
+    const trimmedUrl = urls[index].trim();
+
+    if (!trimmedUrl) continue;
+
+    if (!isValidYouTubeUrl(trimmedUrl)) {
+      errors.push(`Invalid YouTube URL at line ${index + 1}: ${trimmedUrl}`);
+      continue;
+    }
+
+    const playlistId = extractPlaylistId(trimmedUrl);
+    const videoId = extractVideoId(trimmedUrl);
+    const channel = extractChannelRef(trimmedUrl);
+
+    if (playlistId) {
+      try {
+        const playlist = await getPlaylist(youtubeAPI, playlistId, fresh);
+        if (!playlist) {
+          errors.push(`Playlist ${playlistId} has no videos`);
+          continue;
+        }
+
+        playlists.push({ ...playlist, url: trimmedUrl });
+      } catch (error) {
+        console.error(`Error fetching playlist ${playlistId}:`, error);
+        errors.push(getYouTubeErrorMessage(error, `playlist ${playlistId}`));
+      }
+    } else if (videoId) {
+      try {
+        const [videoDetail] = await getVideos(youtubeAPI, [videoId]);
+        if (!videoDetail) {
+          // The API leaves out videos that are private, deleted or never existed
+          errors.push(`Video ${videoId} isn't available on YouTube. It may be private or deleted.`);
+          continue;
+        }
+        videos.push({ ...videoDetail, url: trimmedUrl, ...extractTimeRange(trimmedUrl) });
+      } catch (error) {
+        console.error(`Error fetching video ${videoId}:`, error);
+        // Still add the video with basic info, but say why its details are missing
+        errors.push(getYouTubeErrorMessage(error, `video ${videoId}`));
+        videos.push({
+          id: videoId,
+          url: trimmedUrl,
+          ...extractTimeRange(trimmedUrl)
+        });
+      }
+    } else if (channel) {
+      const channelName = `channel ${channel.kind === 'handle' ? '@' : ''}${channel.value}`;
+      try {
+        const uploadsId = await getChannelUploadsId(youtubeAPI, channel);
+        const playlist = uploadsId ? await getPlaylist(youtubeAPI, uploadsId, fresh) : null;
+        if (!playlist) {
+          errors.push(`Couldn't find any uploads for ${channelName}`);
+          continue;
+        }
+
+        playlists.push({ ...playlist, url: trimmedUrl });
+      } catch (error) {
+        console.error(`Error fetching ${channelName}:`, error);
+        errors.push(getYouTubeErrorMessage(error, channelName));
+      }
+    } else {
+      errors.push(`Could not extract video or playlist ID from: ${trimmedUrl}`);
+    }
+  }
+
+  return { videos, playlists, errors };
+}
+
+// One page of a playlist for /api/youtube/playlist. Returns null without an API key: the
+// keyless path lists playlists through the IFrame player, which only sees the first 200 videos.
+export async function resolvePlaylistPage(playlistId: string, pageToken?: string, fresh = false): Promise<PlaylistPage | null> {
+  const youtubeAPI = createYouTubeAPI();
+  if (!youtubeAPI) return null;
+
+  return getPlaylistPage(youtubeAPI, playlistId, pageToken, fresh);
+}
+
+const searchCache = new TTLCache<YouTubeSearchPage>(getCacheTtlMs());
+
+// Search snippets come HTML-escaped
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// One page of search results for /api/youtube/search, or null without an API key.
+// Each page costs 100 quota units, so identical searches are served from the cache.
+export async function searchYouTube(query: string, pageToken?: string): Promise<YouTubeSearchPage | null> {
+  const youtubeAPI = createYouTubeAPI();
+  if (!youtubeAPI) return null;
+
+  const cacheKey = `${query.toLowerCase()}:${pageToken ?? ''}`;
+  const cached = searchCache.get(cacheKey);
+  if (cached) return cached;
+
+  const { items, nextPageToken } = await youtubeAPI.search(query, pageToken);
+
+  // Durations aren't part of search results; the video lookup is cheap and usually cached
+  const videoIds = items.map(item => item.id.videoId).filter((id): id is string => Boolean(id));
+  const details = new Map((await getVideos(youtubeAPI, videoIds)).map(video => [video.id, video]));
+
+  const results = items.flatMap((item): YouTubeSearchResult[] => {
+    const thumbnail = item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default?.url;
+    const channelTitle = decodeEntities(item.snippet.channelTitle);
+
+    if (item.id.videoId) {
+      const video = details.get(item.id.videoId);
+      return [{
+        kind: 'video',
+        id: item.id.videoId,
+        url: `https://www.youtube.com/watch?v=${item.id.videoId}`,
+        title: video?.title || decodeEntities(item.snippet.title),
+        channelTitle,
+        thumbnail: video?.thumbnail || thumbnail,
+        duration: video?.duration
+      }];
+    }
+    if (item.id.playlistId) {
+      return [{
+        kind: 'playlist',
+        id: item.id.playlistId,
+        url: `https://www.youtube.com/playlist?list=${item.id.playlistId}`,
+        title: decodeEntities(item.snippet.title),
+        channelTitle,
+        thumbnail
+      }];
+    }
+    return [];
+  });
+
+  const page = { results, nextPageToken };
+  searchCache.set(cacheKey, page);
+  return page;
+}
+
+const TIMEDTEXT_URL = 'https://www.youtube.com/api/timedtext';
+const TIMEDTEXT_TIMEOUT_MS = 10000;
+
+interface CaptionTrack {
+  language: string;
+  name: string;
+  isDefault: boolean;
+}
+
+// Whole transcripts are much larger than metadata, so fewer are kept. Only answers from
+// YouTube are cached (including "no captions"); failed requests throw and are retried next time.
+const transcriptCache = new TTLCache<{ language: string; cues: TranscriptCue[] } | null>(getCacheTtlMs(), 100);
+
+function readXmlAttribute(tag: string, name: string): string {
+  return tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1] ?? '';
+}
+
+// Caption tracks the uploader published. Auto-generated captions aren't listed here,
+// which is why the transcript panel also takes uploaded files.
+async function fetchCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+  const response = await fetch(`${TIMEDTEXT_URL}?type=list&v=${encodeURIComponent(videoId)}`, {
+    signal: AbortSignal.timeout(TIMEDTEXT_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`Caption list request failed: ${response.status}`);
+  }
+
+  const xml = await response.text();
+  return Array.from(xml.matchAll(/<track\b[^>]*>/g), ([tag]) => ({
+    language: readXmlAttribute(tag, 'lang_code'),
+    name: readXmlAttribute(tag, 'name'),
+    isDefault: readXmlAttribute(tag, 'lang_default') === 'true'
+  })).filter(track => track.language);
+}
+
+// The video's captions for /api/youtube/transcript, preferring English, or null when it has none.
+// Needs no API key: the Data API only hands caption files to the video's owner.
+export async function resolveTranscript(videoId: string): Promise<{ language: string; cues: TranscriptCue[] } | null> {
+  const cached = transcriptCache.get(videoId);
+  if (cached !== undefined) return cached;
+
+  const tracks = await fetchCaptionTracks(videoId);
+  const track = tracks.find(t => t.language === 'en') ??
+    tracks.find(t => t.language.startsWith('en')) ??
+    tracks.find(t => t.isDefault) ??
+    tracks[0];
+
+  let transcript: { language: string; cues: TranscriptCue[] } | null = null;
+  if (track) {
+    const params = new URLSearchParams({ v: videoId, lang: track.language, name: track.name, fmt: 'vtt' });
+    const response = await fetch(`${TIMEDTEXT_URL}?${params}`, { signal: AbortSignal.timeout(TIMEDTEXT_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Caption request failed: ${response.status}`);
+    }
+
+    const cues = parseCaptionFile(await response.text());
+    transcript = cues.length > 0 ? { language: track.language, cues } : null;
+  }
+
+  transcriptCache.set(videoId, transcript);
+  return transcript;
+}
@@ -1,9 +1,7 @@
-import { convertAPIVideoToVideoInfo, createYouTubeAPI } from './youtube-api';
-
 // YouTube URL utilities
 export function extractVideoId(url: string): string | null {
   const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube(?:-nocookie)?\.com\/(?:embed|shorts|live|v)\/)([^&\n?#/]+)/,
     /youtube\.com\/watch\?.*v=([^&\n?#]+)/
   ];
   
@@ -20,17 +18,118 @@ export function extractPlaylistId(url: string): string | null {
   return match ? match[1] : null;
 }
 
+export type ChannelRef =
+  | { kind: 'id'; value: string } // /channel/UC...
+  | { kind: 'handle'; value: string } // /@handle
+  | { kind: 'custom'; value: string } // /c/name
+  | { kind: 'user'; value: string }; // /user/name, the oldest style
+
+export function extractChannelRef(url: string): ChannelRef | null {
+  const match = url.match(/youtube\.com\/(?:(channel|c|user)\/|(@))([^/?#&\s]+)/);
+  if (!match) return null;
+
+  const [, prefix, at, value] = match;
+  if (at) return { kind: 'handle', value: decodeURIComponent(value) };
+  if (prefix === 'channel') return { kind: 'id', value };
+  return { kind: prefix === 'c' ? 'custom' : 'user', value: decodeURIComponent(value) };
+}
+
+// Every channel's uploads playlist is its ID with UC swapped for UU
+export function getUploadsPlaylistId(channelId: string): string | null {
+  return channelId.startsWith('UC') ? `UU${channelId.slice(2)}` : null;
+}
+
+// youtube.com and its m./music. hosts, youtube-nocookie.com embeds and youtu.be links
 export function isValidYouTubeUrl(url: string): boolean {
-  const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\//;
+  const youtubeRegex = /^(https?:\/\/)?((www|m|music)\.)?(youtube\.com|youtube-nocookie\.com|youtu\.be)\//;
   return youtubeRegex.test(url);
 }
 
+// "90", "90s", "1m30s" or "1h2m3s" in seconds
+export function parseTimestamp(value: string): number | undefined {
+  if (/^\d+(\.\d+)?$/.test(value)) return Math.floor(Number(value));
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!value || !match) return undefined;
+
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+}
+
+// The part of a video a link points at: t= or start= (query or #fragment) and end=.
+// Only the offsets a URL actually has are returned, so the result can be spread onto a VideoInfo.
+export function extractTimeRange(url: string): { start?: number; end?: number } {
+  const params = new Map<string, string>();
+  for (const [, key, value] of url.matchAll(/[?&#](t|start|end)=([^&#\s]+)/g)) {
+    params.set(key, value);
+  }
+
+  const range: { start?: number; end?: number } = {};
+  const start = parseTimestamp(params.get('t') ?? params.get('start') ?? '');
+  const end = parseTimestamp(params.get('end') ?? '');
+
+  if (start !== undefined && start > 0) range.start = start;
+  if (end !== undefined && end > (range.start ?? 0)) range.end = end;
+  return range;
+}
+
+// A section of a video, from the "00:00 Intro" lines in its description
+export interface Chapter {
+  start: number; // in seconds
+  title: string;
+}
+
+// Matches YouTube's own rules: the first chapter starts at 0:00, there are at least three,
+// and they go forward in time. Anything else in the description is ignored.
+const MIN_CHAPTERS = 3;
+const CHAPTER_LINE_PATTERN = /^[\s\-–—•*[(]*((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]*\s*[-–—:|]?\s*(.+?)\s*$/;
+
+export function parseChapters(description: string): Chapter[] | undefined {
+  const chapters: Chapter[] = [];
+
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(CHAPTER_LINE_PATTERN);
+    if (!match) continue;
+
+    const start = match[1].split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+    const previous = chapters[chapters.length - 1];
+    if (previous && start <= previous.start) continue;
+
+    chapters.push({ start, title: match[2] });
+  }
+
+  return chapters.length >= MIN_CHAPTERS && chapters[0].start === 0 ? chapters : undefined;
+}
+
+// Index of the chapter playing at `time`, or -1 before the first one
+export function getChapterIndex(chapters: Chapter[], time: number): number {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+    if (chapter.start <= time) index = i;
+  });
+  return index;
+}
+
 export interface VideoInfo {
   id: string;
   url: string;
   title?: string;
   duration?: number;
   thumbnail?: string;
+  // Play only part of the video, in seconds (from t=/start=/end= in the link)
+  start?: number;
+  end?: number;
+  publishedAt?: string; // ISO date, when the details came from the API
+  chapters?: Chapter[]; // only when the API key is set; oEmbed has no description
+}
+
+// Narrow a channel's uploads down before adding them. Videos whose date or duration
+// isn't known (no API key) are kept rather than guessed at.
+export interface VideoFilters {
+  publishedAfter?: string; // YYYY-MM-DD, inclusive
+  publishedBefore?: string; // YYYY-MM-DD, inclusive
+  keyword?: string; // matched against the title, ignoring case
+  minDuration?: number; // in seconds
 }
 
 export interface PlaylistInfo {
@@ -38,14 +137,103 @@ export interface PlaylistInfo {
   url: string;
   title?: string;
   videos: VideoInfo[];
+  // Long playlists arrive a page at a time: while nextPageToken is set there are more
+  // videos to load. totalVideos is YouTube's count, which includes unavailable entries.
+  totalVideos?: number;
+  nextPageToken?: string;
+  filters?: VideoFilters; // applied to every page as it loads (channel imports)
+  // Queue edits made by hand, which a refresh from YouTube keeps (see mergeManualPlaylistEdits):
+  // videos moved into the playlist from elsewhere in the queue, and videos taken out of it
+  addedVideoIds?: string[];
+  removedVideoIds?: string[];
+}
+
+export function matchesVideoFilters(video: VideoInfo, filters: VideoFilters): boolean {
+  const publishedOn = video.publishedAt?.slice(0, 10);
+
+  if (publishedOn && filters.publishedAfter && publishedOn < filters.publishedAfter) return false;
+  if (publishedOn && filters.publishedBefore && publishedOn > filters.publishedBefore) return false;
+  if (filters.keyword && !(video.title ?? '').toLowerCase().includes(filters.keyword.toLowerCase())) return false;
+  if (filters.minDuration && video.duration !== undefined && video.duration < filters.minDuration) return false;
+  return true;
+}
+
+// Filter one page of uploads. Uploads come newest first, so a page that reaches past
+// publishedAfter is the last one worth loading. The total no longer applies once filtered.
+export function filterPlaylistPage(page: PlaylistPage, filters?: VideoFilters): PlaylistPage {
+  if (!filters) return page;
+
+  const { publishedAfter } = filters;
+  const reachedStart = publishedAfter !== undefined &&
+    page.videos.some(video => video.publishedAt !== undefined && video.publishedAt.slice(0, 10) < publishedAfter);
+
+  return {
+    videos: page.videos.filter(video => matchesVideoFilters(video, filters)),
+    nextPageToken: reachedStart ? undefined : page.nextPageToken,
+    totalVideos: undefined
+  };
+}
+
+// A hit from /api/youtube/search. Only what's needed to pick it: no view counts or recommendations.
+export interface YouTubeSearchResult {
+  kind: 'video' | 'playlist';
+  id: string;
+  url: string;
+  title: string;
+  channelTitle?: string;
+  thumbnail?: string;
+  duration?: number; // videos only, in seconds
+}
+
+export interface YouTubeSearchPage {
+  results: YouTubeSearchResult[];
+  nextPageToken?: string;
+}
+
+// Error codes from the IFrame player's onError event
+export type PlayerErrorKind = 'invalidId' | 'playbackFailed' | 'unavailable' | 'embedBlocked';
+
+export function getPlayerErrorKind(code: number): PlayerErrorKind {
+  switch (code) {
+    case 2:
+      return 'invalidId';
+    case 100:
+      return 'unavailable'; // removed, or made private
+    case 101:
+    case 150:
+      return 'embedBlocked'; // the owner disabled embedding, or the video is age-restricted
+    default:
+      return 'playbackFailed'; // 5: the HTML5 player hit an error, usually temporary
+  }
+}
+
+export const PLAYER_ERROR_MESSAGES: Record<PlayerErrorKind, { label: string; detail: string }> = {
+  invalidId: { label: 'Invalid link', detail: 'This video ID is not valid. The link may be incomplete.' },
+  playbackFailed: { label: 'Playback error', detail: 'The player could not play this video. Trying again later may work.' },
+  unavailable: { label: 'Unavailable', detail: 'This video was removed or made private.' },
+  embedBlocked: { label: 'Embedding disabled', detail: 'This video can only be watched on YouTube (embedding is disabled or it is age-restricted).' }
+};
+
+// Every error except a playback hiccup means the video will never play here
+export function isPermanentPlayerError(code: number): boolean {
+  return getPlayerErrorKind(code) !== 'playbackFailed';
+}
+
+// One page of a playlist from /api/youtube/playlist
+export interface PlaylistPage {
+  videos: VideoInfo[];
+  nextPageToken?: string;
+  totalVideos?: number;
 }
 
-// Synchronous parsing for immediate results (with placeholders for playlists)
-export function parseYouTubeUrls(urls: string[]): {
+export interface YouTubeResolveResult {
   videos: VideoInfo[];
   playlists: PlaylistInfo[];
   errors: string[];
-} {
+}
+
+// Synchronous parsing for immediate results (playlists come back without their videos)
+export function parseYouTubeUrls(urls: string[]): YouTubeResolveResult {
   const videos: VideoInfo[] = [];
   const playlists: PlaylistInfo[] = [];
   const errors: string[] = [];
@@ -62,28 +250,35 @@ export function parseYouTubeUrls(urls: string[]): {
 
     const playlistId = extractPlaylistId(trimmedUrl);
     const videoId = extractVideoId(trimmedUrl);
+    const channel = extractChannelRef(trimmedUrl);
 
     if (playlistId) {
-      // Create placeholder videos for the playlist
-      // These will be replaced by real data when using parseYouTubeUrlsAsync
-      const placeholderVideos: VideoInfo[] = Array.from({ length: 5 }, (_, i) => ({
-        id: `${playlistId}_video_${i + 1}`,
-        url: `https://youtube.com/watch?v=${playlistId}_video_${i + 1}&list=${playlistId}`,
-        title: `Loading playlist video ${i + 1}...`,
-        duration: 300 // 5 minutes placeholder
-      }));
-
+      // Videos are filled in by parseYouTubeUrlsAsync
       playlists.push({
         id: playlistId,
         url: trimmedUrl,
-        title: `Loading playlist...`,
-        videos: placeholderVideos
+        title: `Playlist ${playlistId}`,
+        videos: []
       });
     } else if (videoId) {
       videos.push({
         id: videoId,
-        url: trimmedUrl
+        url: trimmedUrl,
+        ...extractTimeRange(trimmedUrl)
       });
+    } else if (channel) {
+      // Only /channel/UC... links say which uploads playlist they mean; the rest need the API
+      const uploadsId = channel.kind === 'id' ? getUploadsPlaylistId(channel.value) : null;
+      if (uploadsId) {
+        playlists.push({
+          id: uploadsId,
+          url: trimmedUrl,
+          title: `Uploads from ${channel.value}`,
+          videos: []
+        });
+      } else {
+        errors.push(`Channel ${channel.kind === 'handle' ? '@' : ''}${channel.value} can only be looked up with the server's YouTube API key`);
+      }
     } else {
       errors.push(`Could not extract video or playlist ID from: ${trimmedUrl}`);
     }
@@ -92,95 +287,173 @@ export function parseYouTubeUrls(urls: string[]): {
   return { videos, playlists, errors };
 }
 
-// Async parsing for real YouTube API data
-export async function parseYouTubeUrlsAsync(urls: string[]): Promise<{
-  videos: VideoInfo[];
-  playlists: PlaylistInfo[];
-  errors: string[];
-}> {
-  const videos: VideoInfo[] = [];
-  const playlists: PlaylistInfo[] = [];
-  const errors: string[] = [];
-  
-  const youtubeAPI = createYouTubeAPI();
-  if (!youtubeAPI) {
-    // Fall back to synchronous parsing if no API key
-    return parseYouTubeUrls(urls);
+const RESOLVE_BATCH_SIZE = 50; // matches the limit of /api/youtube/resolve
+
+// `fresh` skips the server's cache, for when a stale snapshot would be wrong
+async function requestResolve(urls: string[], fresh = false): Promise<YouTubeResolveResult> {
+  const response = await fetch('/api/youtube/resolve', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(fresh ? { urls, fresh } : { urls }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Resolve request failed: ${response.status}`);
   }
+  return response.json();
+}
 
-  for (let index = 0; index < urls.length; index++) {
-    const url = urls[index];
-    const trimmedUrl = url.trim();
-    
-    if (!trimmedUrl) continue;
-    
-    if (!isValidYouTubeUrl(trimmedUrl)) {
-      errors.push(`Invalid YouTube URL at line ${index + 1}: ${trimmedUrl}`);
-      continue;
+// Fetch the page of a playlist that `pageToken` points at (the first page when omitted)
+export async function fetchPlaylistPage(
+  playlistId: string,
+  pageToken?: string,
+  { signal, fresh = false }: { signal?: AbortSignal; fresh?: boolean } = {}
+): Promise<PlaylistPage> {
+  const params = new URLSearchParams({ id: playlistId });
+  if (pageToken) params.set('pageToken', pageToken);
+  if (fresh) params.set('fresh', '1');
+
+  const response = await fetch(`/api/youtube/playlist?${params}`, { signal });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Playlist request failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function searchYouTube(query: string, pageToken?: string): Promise<YouTubeSearchPage> {
+  const params = new URLSearchParams({ q: query });
+  if (pageToken) params.set('pageToken', pageToken);
+
+  const response = await fetch(`/api/youtube/search?${params}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Search request failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Without an API key the server can't list playlists, so list them through the IFrame
+// player here and look the videos up in batches
+async function fillPlaylistVideos(playlist: PlaylistInfo): Promise<PlaylistInfo> {
+  const { enumeratePlaylistVideoIds } = await import('./youtube-playlist-player');
+  const videoIds = await enumeratePlaylistVideoIds(playlist.id);
+
+  const videos: VideoInfo[] = [];
+  for (let i = 0; i < videoIds.length; i += RESOLVE_BATCH_SIZE) {
+    const batch = videoIds.slice(i, i + RESOLVE_BATCH_SIZE).map(id => ({ id, url: `https://www.youtube.com/watch?v=${id}` }));
+    try {
+      videos.push(...(await requestResolve(batch.map(video => video.url))).videos);
+    } catch (error) {
+      // The IDs are what matter; titles fill in as the videos play
+      console.error('Error resolving playlist videos:', error);
+      videos.push(...batch);
     }
+  }
 
-    const playlistId = extractPlaylistId(trimmedUrl);
-    const videoId = extractVideoId(trimmedUrl);
+  return {
+    ...playlist,
+    videos: videos.map(video => ({
+      ...video,
+      url: `https://www.youtube.com/watch?v=${video.id}&list=${playlist.id}`
+    }))
+  };
+}
 
-    if (playlistId) {
-      try {
-        // Fetch real playlist data
-        const [playlistDetails, playlistItems] = await Promise.all([
-          youtubeAPI.fetchPlaylistDetails(playlistId),
-          youtubeAPI.fetchPlaylistItems(playlistId, 200) // Fetch up to 200 videos
-        ]);
+// Filter a freshly resolved playlist, loading further pages until something matches
+async function applyPlaylistFilters(playlist: PlaylistInfo, filters: VideoFilters): Promise<PlaylistInfo> {
+  let page = filterPlaylistPage(playlist, filters);
+  const videos = [...page.videos];
 
-        if (playlistItems.length === 0) {
-          errors.push(`Playlist ${playlistId} is empty or inaccessible`);
-          continue;
-        }
+  while (videos.length === 0 && page.nextPageToken) {
+    page = filterPlaylistPage(await fetchPlaylistPage(playlist.id, page.nextPageToken), filters);
+    videos.push(...page.videos);
+  }
 
-        // Get video IDs from playlist items
-        const videoIds = playlistItems
-          .map(item => item.snippet.resourceId.videoId)
-          .filter(Boolean);
+  return { ...playlist, videos, nextPageToken: page.nextPageToken, totalVideos: undefined, filters };
+}
 
-        // Fetch detailed video information
-        const videoDetails = await youtubeAPI.fetchVideoDetails(videoIds);
+// Resolve URLs to real titles, durations and playlist contents through /api/youtube/resolve,
+// which holds the API key and caches results. With a key, playlists come back with their first
+// page only; SessionView streams in the rest (see usePlaylistStreaming).
+// Channel links come back as their uploads playlist, narrowed down by `channelFilters`.
+export async function parseYouTubeUrlsAsync(urls: string[], channelFilters?: VideoFilters): Promise<YouTubeResolveResult> {
+  // The route takes RESOLVE_BATCH_SIZE URLs at a time; a failed batch falls back to basic info on its own
+  const result: YouTubeResolveResult = { videos: [], playlists: [], errors: [] };
+  let failure: unknown = null;
+  for (let i = 0; i < urls.length; i += RESOLVE_BATCH_SIZE) {
+    const batch = urls.slice(i, i + RESOLVE_BATCH_SIZE);
+    let resolved: YouTubeResolveResult;
+    try {
+      resolved = await requestResolve(batch);
+    } catch (error) {
+      console.error('Error resolving YouTube URLs:', error);
+      resolved = parseYouTubeUrls(batch);
+      failure = error;
+    }
+    result.videos.push(...resolved.videos);
+    result.playlists.push(...resolved.playlists);
+    result.errors.push(...resolved.errors);
+  }
+  if (failure) {
+    const reason = failure instanceof Error ? ` (${failure.message})` : '';
+    result.errors.push(`Could not load video details${reason}. Showing basic information instead.`);
+  }
 
-        // Convert to our VideoInfo format
-        const playlistVideos: VideoInfo[] = videoDetails.map(convertAPIVideoToVideoInfo);
+  const playlists: PlaylistInfo[] = [];
+  for (const resolved of result.playlists) {
+    let playlist = resolved;
 
-        playlists.push({
-          id: playlistId,
-          url: trimmedUrl,
-          title: playlistDetails?.snippet.title || `Playlist ${playlistId}`,
-          videos: playlistVideos
-        });
-      } catch (error) {
-        console.error(`Error fetching playlist ${playlistId}:`, error);
-        errors.push(`Failed to fetch playlist data for ${playlistId}`);
+    try {
+      if (playlist.videos.length === 0 && !playlist.nextPageToken) {
+        playlist = await fillPlaylistVideos(playlist);
       }
-    } else if (videoId) {
-      try {
-        // Fetch individual video details
-        const videoDetail = await youtubeAPI.fetchVideoDetail(videoId);
-        if (videoDetail) {
-          videos.push(convertAPIVideoToVideoInfo(videoDetail));
-        } else {
-          videos.push({
-            id: videoId,
-            url: trimmedUrl,
-            title: `Video ${videoId}` // Fallback title
-          });
-        }
-      } catch (error) {
-        console.error(`Error fetching video ${videoId}:`, error);
-        // Still add the video with basic info
-        videos.push({
-          id: videoId,
-          url: trimmedUrl
-        });
+      if (channelFilters && extractChannelRef(playlist.url)) {
+        playlist = await applyPlaylistFilters(playlist, channelFilters);
       }
-    } else {
-      errors.push(`Could not extract video or playlist ID from: ${trimmedUrl}`);
+    } catch (error) {
+      console.error(`Error listing playlist ${playlist.id}:`, error);
+      result.errors.push(`Playlist ${playlist.id} is empty or inaccessible`);
+      continue;
     }
+
+    if (playlist.videos.length === 0 && playlist.filters) {
+      result.errors.push(`No videos in "${playlist.title || playlist.id}" match the filters`);
+      continue;
+    }
+    playlists.push(playlist);
   }
 
-  return { videos, playlists, errors };
+  return { ...result, playlists };
+}
+
+// The playlist as it is on YouTube now, with every page loaded. Used to bring a saved
+// playlist up to date, so cached pages are skipped.
+export async function fetchLatestPlaylist(playlist: PlaylistInfo): Promise<PlaylistInfo> {
+  const { playlists, errors } = await requestResolve([`https://www.youtube.com/playlist?list=${playlist.id}`], true);
+  const resolved = playlists[0];
+  if (!resolved) {
+    throw new Error(errors[0] || `Playlist ${playlist.id} is empty or inaccessible`);
+  }
+
+  // Without an API key the server only returns the title
+  let latest = resolved.videos.length === 0 && !resolved.nextPageToken
+    ? await fillPlaylistVideos(resolved)
+    : resolved;
+  latest = { ...latest, ...filterPlaylistPage(latest, playlist.filters) };
+
+  while (latest.nextPageToken) {
+    const page = filterPlaylistPage(await fetchPlaylistPage(playlist.id, latest.nextPageToken, { fresh: true }), playlist.filters);
+    latest = {
+      ...latest,
+      videos: [...latest.videos, ...page.videos],
+      nextPageToken: page.nextPageToken,
+      totalVideos: page.totalVideos ?? latest.totalVideos
+    };
+  }
+
+  return { ...latest, url: playlist.url };
 }